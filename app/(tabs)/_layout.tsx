@@ -40,6 +40,24 @@ export default function TabLayout() {
             ),
           }}
         />
+        <Tabs.Screen
+          name="history"
+          options={{
+            title: 'History',
+            tabBarIcon: ({ size, color }) => (
+              <MaterialIcons name="history" size={size} color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="admin"
+          options={{
+            title: 'Admin',
+            tabBarIcon: ({ size, color }) => (
+              <MaterialIcons name="admin-panel-settings" size={size} color={color} />
+            ),
+          }}
+        />
         <Tabs.Screen
           name="profile"
           options={{
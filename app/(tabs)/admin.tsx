@@ -0,0 +1,644 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { AdminService } from '@/services/AdminService';
+import { DeviceService } from '@/services/DeviceService';
+import {
+  supabase,
+  User,
+  Course,
+  Department,
+  ApprovalStatus,
+  CourseAttendanceOverview,
+  DeviceResetRequestWithStudent,
+} from '@/lib/supabase';
+import CourseAssignmentModal from '@/components/CourseAssignmentModal';
+import AttendanceRegisterModal from '@/components/AttendanceRegisterModal';
+import CampusNetworkManager from '@/components/CampusNetworkManager';
+import GeofenceManager from '@/components/GeofenceManager';
+
+export default function AdminTab() {
+  const [user, setUser] = useState<User | null>(null);
+  const [faculty, setFaculty] = useState<User[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [overview, setOverview] = useState<CourseAttendanceOverview[]>([]);
+  const [deviceResets, setDeviceResets] = useState<DeviceResetRequestWithStudent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const [resolvingResetId, setResolvingResetId] = useState<string | null>(null);
+  const [departmentCode, setDepartmentCode] = useState('');
+  const [departmentName, setDepartmentName] = useState('');
+  const [isCreatingDepartment, setIsCreatingDepartment] = useState(false);
+  const [departmentFilter, setDepartmentFilter] = useState<string | null>(null);
+  // undefined = closed, null = creating a new course
+  const [editingCourse, setEditingCourse] = useState<Course | null | undefined>(undefined);
+  const [registerCourse, setRegisterCourse] = useState<Course | null>(null);
+
+  const loadConsole = useCallback(async (refreshing = false) => {
+    if (refreshing) {
+      setIsRefreshing(true);
+    } else {
+      setIsLoading(true);
+    }
+    try {
+      const [facultyData, departmentData, courseData, overviewData, resetData] = await Promise.all([
+        AdminService.fetchFaculty(),
+        AdminService.fetchDepartments(),
+        AdminService.fetchAllCourses(),
+        AdminService.fetchAttendanceOverview(),
+        DeviceService.fetchPendingResets(),
+      ]);
+      setFaculty(facultyData);
+      setDepartments(departmentData);
+      setCourses(courseData);
+      setOverview(overviewData);
+      setDeviceResets(resetData);
+    } catch (error) {
+      console.error('Admin console load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load admin console');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  const checkUser = useCallback(async () => {
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authUser) {
+      setUser(null);
+      return;
+    }
+
+    const { data } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', authUser.id)
+      .single();
+
+    setUser(data);
+    if (data && data.role === 'admin') {
+      loadConsole();
+    }
+  }, [loadConsole]);
+
+  useFocusEffect(
+    useCallback(() => {
+      checkUser();
+    }, [checkUser])
+  );
+
+  const setApproval = async (member: User, status: ApprovalStatus) => {
+    setUpdatingUserId(member.id);
+    try {
+      const updated = await AdminService.setApprovalStatus(member.id, status);
+      setFaculty(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+    } catch (error) {
+      console.error('Approval update error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update approval');
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const confirmReject = (member: User) => {
+    Alert.alert(
+      'Reject Faculty Account',
+      `${member.name} will not be able to run sessions.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reject', style: 'destructive', onPress: () => setApproval(member, 'rejected') },
+      ]
+    );
+  };
+
+  const resolveDeviceReset = async (request: DeviceResetRequestWithStudent, approve: boolean) => {
+    setResolvingResetId(request.id);
+    try {
+      await DeviceService.resolveReset(request.id, approve);
+      setDeviceResets(prev => prev.filter(item => item.id !== request.id));
+    } catch (error) {
+      console.error('Device reset resolution error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to resolve device reset');
+    } finally {
+      setResolvingResetId(null);
+    }
+  };
+
+  const confirmDeviceReset = (request: DeviceResetRequestWithStudent) => {
+    Alert.alert(
+      'Reset Devices',
+      `${request.student.name}'s registered devices will be cleared. The next phone they mark attendance from will be bound to their account.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', onPress: () => resolveDeviceReset(request, true) },
+      ]
+    );
+  };
+
+  const createDepartment = async () => {
+    setIsCreatingDepartment(true);
+    try {
+      const department = await AdminService.createDepartment(departmentCode, departmentName);
+      setDepartments(prev => [...prev, department].sort((a, b) => a.code.localeCompare(b.code)));
+      setDepartmentCode('');
+      setDepartmentName('');
+    } catch (error) {
+      console.error('Department creation error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create department');
+    } finally {
+      setIsCreatingDepartment(false);
+    }
+  };
+
+  const handleCourseSaved = (saved: Course) => {
+    setCourses(prev =>
+      [...prev.filter(course => course.id !== saved.id), saved].sort((a, b) => a.code.localeCompare(b.code))
+    );
+    setEditingCourse(undefined);
+    // Faculty name and department in the overview come from the server
+    AdminService.fetchAttendanceOverview()
+      .then(setOverview)
+      .catch(error => console.error('Overview refresh error:', error));
+  };
+
+  const handleCourseUpdated = (updated: Course) => {
+    setCourses(prev => prev.map(course => (course.id === updated.id ? updated : course)));
+    setRegisterCourse(updated);
+  };
+
+  if (!user) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error" size={48} color="#EF4444" />
+          <Text style={styles.errorText}>Please create your profile first</Text>
+          <Text style={styles.errorSubtext}>Go to Profile tab to set up your account</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (user.role !== 'admin') {
+    return (
+      <View style={styles.container}>
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error" size={48} color="#EF4444" />
+          <Text style={styles.errorText}>Admin access required</Text>
+          <Text style={styles.errorSubtext}>Only institution administrators can use this console</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const pendingFaculty = faculty.filter(member => member.approval_status === 'pending');
+  const approvedFaculty = faculty.filter(member => member.approval_status === 'approved');
+  const facultyName = (id: string) => faculty.find(member => member.id === id)?.name ?? 'Unassigned';
+  const departmentCodeFor = (id: string | null) => departments.find(department => department.id === id)?.code;
+  const filteredOverview = overview.filter(
+    row => departmentFilter === null || row.department_id === departmentFilter
+  );
+  const totals = filteredOverview.reduce(
+    (sum, row) => ({ attended: sum.attended + row.attended_count, counted: sum.counted + row.counted_count }),
+    { attended: 0, counted: 0 }
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={() => loadConsole(true)} />}
+    >
+      <View style={styles.header}>
+        <MaterialIcons name="admin-panel-settings" size={40} color="#3B82F6" />
+        <Text style={styles.title}>Administration</Text>
+        <Text style={styles.subtitle}>Faculty, departments, courses, rooms and campus networks</Text>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+      ) : (
+        <>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Pending Faculty ({pendingFaculty.length})</Text>
+            {pendingFaculty.length === 0 ? (
+              <Text style={styles.emptyText}>No accounts waiting for approval.</Text>
+            ) : (
+              pendingFaculty.map(member => (
+                <View key={member.id} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{member.name}</Text>
+                    <Text style={styles.rowDetails}>{member.email} · {member.registration_number}</Text>
+                    <Text style={styles.rowMeta}>Signed up {new Date(member.created_at).toLocaleDateString()}</Text>
+                  </View>
+                  {updatingUserId === member.id ? (
+                    <ActivityIndicator color="#3B82F6" />
+                  ) : (
+                    <View style={styles.rowActions}>
+                      <TouchableOpacity style={styles.rejectButton} onPress={() => confirmReject(member)}>
+                        <MaterialIcons name="close" size={20} color="#EF4444" />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.approveButton} onPress={() => setApproval(member, 'approved')}>
+                        <MaterialIcons name="check" size={20} color="#FFFFFF" />
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Device Resets ({deviceResets.length})</Text>
+            {deviceResets.length === 0 ? (
+              <Text style={styles.emptyText}>No device reset requests.</Text>
+            ) : (
+              deviceResets.map(request => (
+                <View key={request.id} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{request.student.name}</Text>
+                    <Text style={styles.rowDetails}>{request.student.email} · {request.student.registration_number}</Text>
+                    <Text style={styles.rowDetails}>{request.reason}</Text>
+                    <Text style={styles.rowMeta}>Requested {new Date(request.created_at).toLocaleDateString()}</Text>
+                  </View>
+                  {resolvingResetId === request.id ? (
+                    <ActivityIndicator color="#3B82F6" />
+                  ) : (
+                    <View style={styles.rowActions}>
+                      <TouchableOpacity style={styles.rejectButton} onPress={() => resolveDeviceReset(request, false)}>
+                        <MaterialIcons name="close" size={20} color="#EF4444" />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.approveButton} onPress={() => confirmDeviceReset(request)}>
+                        <MaterialIcons name="check" size={20} color="#FFFFFF" />
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Departments</Text>
+            {departments.length === 0 && (
+              <Text style={styles.emptyText}>No departments yet.</Text>
+            )}
+            {departments.map(department => (
+              <View key={department.id} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{department.code}</Text>
+                  <Text style={styles.rowDetails}>{department.name}</Text>
+                </View>
+                <Text style={styles.rowMeta}>
+                  {courses.filter(course => course.department_id === department.id).length} courses
+                </Text>
+              </View>
+            ))}
+            <View style={styles.createForm}>
+              <TextInput
+                style={[styles.input, styles.codeInput]}
+                placeholder="Code"
+                value={departmentCode}
+                onChangeText={setDepartmentCode}
+                autoCapitalize="characters"
+              />
+              <TextInput
+                style={[styles.input, styles.nameInput]}
+                placeholder="Department name"
+                value={departmentName}
+                onChangeText={setDepartmentName}
+              />
+              <TouchableOpacity
+                style={[styles.addButton, (!departmentCode.trim() || !departmentName.trim()) && styles.disabledButton]}
+                onPress={createDepartment}
+                disabled={isCreatingDepartment || !departmentCode.trim() || !departmentName.trim()}
+              >
+                {isCreatingDepartment ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <MaterialIcons name="add" size={20} color="#FFFFFF" />
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Courses</Text>
+            {courses.length === 0 && (
+              <Text style={styles.emptyText}>No courses yet.</Text>
+            )}
+            {courses.map(course => (
+              <TouchableOpacity key={course.id} style={styles.row} onPress={() => setEditingCourse(course)}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>
+                    {course.code}
+                    {departmentCodeFor(course.department_id) ? ` · ${departmentCodeFor(course.department_id)}` : ''}
+                  </Text>
+                  <Text style={styles.rowDetails}>{course.name}</Text>
+                  <Text style={styles.rowMeta}>{facultyName(course.faculty_id)}</Text>
+                </View>
+                <MaterialIcons name="edit" size={20} color="#6B7280" />
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.newCourseButton} onPress={() => setEditingCourse(null)}>
+              <MaterialIcons name="add" size={20} color="#3B82F6" />
+              <Text style={styles.newCourseButtonText}>New Course</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Campus Networks</Text>
+            <CampusNetworkManager />
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Classroom Geofences</Text>
+            <GeofenceManager />
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Attendance Overview</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+              <TouchableOpacity
+                style={[styles.chip, departmentFilter === null && styles.chipActive]}
+                onPress={() => setDepartmentFilter(null)}
+              >
+                <Text style={[styles.chipText, departmentFilter === null && styles.chipTextActive]}>All</Text>
+              </TouchableOpacity>
+              {departments.map(department => (
+                <TouchableOpacity
+                  key={department.id}
+                  style={[styles.chip, departmentFilter === department.id && styles.chipActive]}
+                  onPress={() => setDepartmentFilter(department.id)}
+                >
+                  <Text style={[styles.chipText, departmentFilter === department.id && styles.chipTextActive]}>
+                    {department.code}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <Text style={styles.overviewTotal}>
+              {totals.counted > 0
+                ? `${((totals.attended / totals.counted) * 100).toFixed(1)}% attendance across ${filteredOverview.length} courses`
+                : 'No attendance recorded yet'}
+            </Text>
+
+            {filteredOverview.map(row => {
+              const course = courses.find(item => item.id === row.course_id);
+              const percentage = row.counted_count > 0 ? (row.attended_count / row.counted_count) * 100 : null;
+              return (
+                <TouchableOpacity
+                  key={row.course_id}
+                  style={styles.row}
+                  onPress={() => course && setRegisterCourse(course)}
+                  disabled={!course}
+                >
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{row.course_code}</Text>
+                    <Text style={styles.rowDetails}>{row.faculty_name ?? 'Unassigned'}</Text>
+                    <Text style={styles.rowMeta}>
+                      {row.session_count} sessions · {row.roster_size} students
+                    </Text>
+                  </View>
+                  <Text
+                    style={[
+                      styles.percentage,
+                      course && percentage !== null && percentage < course.attendance_threshold && styles.shortfallValue,
+                    ]}
+                  >
+                    {percentage !== null ? `${percentage.toFixed(0)}%` : '—'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+
+      {editingCourse !== undefined && (
+        <CourseAssignmentModal
+          visible
+          course={editingCourse}
+          faculty={approvedFaculty}
+          departments={departments}
+          onClose={() => setEditingCourse(undefined)}
+          onSaved={handleCourseSaved}
+        />
+      )}
+
+      {registerCourse && (
+        <AttendanceRegisterModal
+          visible
+          course={registerCourse}
+          onClose={() => setRegisterCourse(null)}
+          onCourseUpdated={handleCourseUpdated}
+        />
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    padding: 20,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#EF4444',
+    marginTop: 10,
+  },
+  errorSubtext: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 30,
+    paddingTop: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 10,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  rowDetails: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  approveButton: {
+    backgroundColor: '#10B981',
+    padding: 8,
+    borderRadius: 8,
+  },
+  rejectButton: {
+    backgroundColor: '#FEF2F2',
+    padding: 8,
+    borderRadius: 8,
+  },
+  createForm: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  codeInput: {
+    width: 80,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  addButton: {
+    backgroundColor: '#3B82F6',
+    padding: 12,
+    borderRadius: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+  newCourseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    borderStyle: 'dashed',
+    marginTop: 12,
+  },
+  newCourseButtonText: {
+    color: '#3B82F6',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  chipRow: {
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  overviewTotal: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  percentage: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#10B981',
+    marginLeft: 8,
+  },
+  shortfallValue: {
+    color: '#EF4444',
+  },
+});
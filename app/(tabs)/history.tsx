@@ -0,0 +1,335 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { AttendanceService } from '@/services/AttendanceService';
+import { HistoryUtils, CourseHistory } from '@/utils/HistoryUtils';
+import { StatusUtils } from '@/utils/StatusUtils';
+import { supabase, User } from '@/lib/supabase';
+
+export default function HistoryTab() {
+  const [user, setUser] = useState<User | null>(null);
+  const [history, setHistory] = useState<CourseHistory[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async (refreshing = false) => {
+    if (refreshing) {
+      setIsRefreshing(true);
+    } else {
+      setIsLoading(true);
+    }
+    try {
+      const entries = await AttendanceService.fetchStudentHistory();
+      setHistory(HistoryUtils.groupByCourse(entries));
+    } catch (error) {
+      console.error('History load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load attendance history');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  const checkUser = useCallback(async () => {
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authUser) {
+      setUser(null);
+      return;
+    }
+
+    const { data } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', authUser.id)
+      .single();
+
+    setUser(data);
+    if (data && data.role === 'student') {
+      loadHistory();
+    }
+  }, [loadHistory]);
+
+  // Reload whenever the tab is shown so a freshly marked session appears straight away
+  useFocusEffect(
+    useCallback(() => {
+      checkUser();
+    }, [checkUser])
+  );
+
+  if (!user) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error" size={48} color="#EF4444" />
+          <Text style={styles.errorText}>Please create your profile first</Text>
+          <Text style={styles.errorSubtext}>Go to Profile tab to set up your account</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (user.role !== 'student') {
+    return (
+      <View style={styles.container}>
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error" size={48} color="#EF4444" />
+          <Text style={styles.errorText}>Student access required</Text>
+          <Text style={styles.errorSubtext}>Use the attendance register on the Faculty Dashboard instead</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const shortfallCount = history.filter(course => course.belowThreshold).length;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={() => loadHistory(true)} />}
+    >
+      <View style={styles.header}>
+        <MaterialIcons name="history" size={40} color="#3B82F6" />
+        <Text style={styles.title}>My Attendance</Text>
+        <Text style={styles.subtitle}>Every session you were recorded in</Text>
+      </View>
+
+      {shortfallCount > 0 && (
+        <View style={styles.warningCard}>
+          <MaterialIcons name="warning" size={24} color="#EF4444" />
+          <Text style={styles.warningText}>
+            You are below the required attendance in {shortfallCount} course{shortfallCount === 1 ? '' : 's'}.
+          </Text>
+        </View>
+      )}
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+      ) : history.length === 0 ? (
+        <Text style={styles.emptyText}>No attendance recorded yet.</Text>
+      ) : (
+        history.map(course => {
+          const isExpanded = expandedKey === course.key;
+          return (
+            <View key={course.key} style={[styles.card, course.belowThreshold && styles.shortfallCard]}>
+              <TouchableOpacity
+                style={styles.courseHeader}
+                onPress={() => setExpandedKey(isExpanded ? null : course.key)}
+              >
+                <View style={styles.courseInfo}>
+                  <Text style={styles.courseCode}>{course.code}</Text>
+                  <Text style={styles.courseName}>{course.name}</Text>
+                  <Text style={styles.courseStats}>
+                    {course.attended} of {course.counted} sessions · required {course.threshold}%
+                  </Text>
+                </View>
+                <Text style={[styles.percentage, course.belowThreshold && styles.shortfallValue]}>
+                  {course.percentage.toFixed(0)}%
+                </Text>
+                <MaterialIcons name={isExpanded ? 'expand-less' : 'expand-more'} size={24} color="#6B7280" />
+              </TouchableOpacity>
+
+              {course.belowThreshold && (
+                <Text style={styles.shortfallText}>
+                  Below the {course.threshold}% requirement for this course
+                </Text>
+              )}
+
+              {isExpanded && course.entries.map(entry => {
+                const status = StatusUtils.getEffectiveStatus(entry);
+                return (
+                  <View key={entry.attendance_id} style={styles.entryRow}>
+                    <View style={styles.entryInfo}>
+                      <Text style={styles.entryDate}>{new Date(entry.session_date).toLocaleString()}</Text>
+                      <Text style={styles.entryDetails}>{entry.faculty_name} · Session {entry.session_id}</Text>
+                      {entry.distance_from_session !== null && entry.coverage_percentage !== null && (
+                        <Text style={styles.entryDetails}>
+                          Coverage: {entry.coverage_percentage.toFixed(1)}% | Distance: {entry.distance_from_session.toFixed(1)}m
+                        </Text>
+                      )}
+                      {entry.override_status && (
+                        <Text style={styles.overrideText}>Updated by faculty from {entry.status.toUpperCase()}</Text>
+                      )}
+                    </View>
+                    <View style={[styles.statusBadge, { backgroundColor: StatusUtils.getStatusColor(status) + '20' }]}>
+                      <Text style={[styles.statusText, { color: StatusUtils.getStatusColor(status) }]}>
+                        {status.toUpperCase()}
+                      </Text>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          );
+        })
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    padding: 20,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#EF4444',
+    marginTop: 10,
+  },
+  errorSubtext: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 30,
+    paddingTop: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 10,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  warningCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF2F2',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#EF4444',
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#991B1B',
+    marginLeft: 10,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  shortfallCard: {
+    borderWidth: 1,
+    borderColor: '#EF4444',
+  },
+  courseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  courseInfo: {
+    flex: 1,
+  },
+  courseCode: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  courseName: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  courseStats: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  percentage: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#10B981',
+    marginHorizontal: 8,
+  },
+  shortfallValue: {
+    color: '#EF4444',
+  },
+  shortfallText: {
+    fontSize: 14,
+    color: '#EF4444',
+    fontWeight: '500',
+    marginTop: 10,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryDate: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  entryDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  overrideText: {
+    fontSize: 12,
+    color: '#3B82F6',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
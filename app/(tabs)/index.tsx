@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import {
   View,
   Text,
@@ -7,63 +7,139 @@ import {
   Alert,
   ScrollView,
   ActivityIndicator,
+  Switch,
 } from 'react-native';
-import * as DocumentPicker from 'expo-document-picker';
-import * as FileSystem from 'expo-file-system';
-import * as XLSX from 'xlsx';
 import { MaterialIcons } from '@expo/vector-icons';
-import MapView, { Circle, Marker } from 'react-native-maps';
+import MapView, { Circle, Marker, Polygon } from 'react-native-maps';
+import { SamplingProgress, ANCHOR_SAMPLE_WINDOW_MS } from '@/services/LocationSampler';
 import { LocationService } from '@/services/LocationService';
-import { CircleUtils } from '@/utils/CircleUtils';
-import { supabase, User, Session, Attendance } from '@/lib/supabase';
+import { StatusUtils } from '@/utils/StatusUtils';
+import { NetworkUtils } from '@/utils/NetworkUtils';
+import { SpoofUtils } from '@/utils/SpoofUtils';
+import { ClusterUtils } from '@/utils/ClusterUtils';
+import { PolicyUtils, DEFAULT_SESSION_POLICY } from '@/utils/PolicyUtils';
+import { SessionUtils, REOPEN_WINDOW_MINUTES } from '@/utils/SessionUtils';
+import { SessionService } from '@/services/SessionService';
+import { CourseService, RosterEntry } from '@/services/CourseService';
+import { ExportService, ExportFormat } from '@/services/ExportService';
+import { AttendanceService } from '@/services/AttendanceService';
+import { GeofenceService } from '@/services/GeofenceService';
+import { supabase, User, Session, Attendance, AttendanceStatus, Course, SessionPolicy, Geofence } from '@/lib/supabase';
 import LoginModal from '@/components/LoginModal';
+import CoursePicker from '@/components/CoursePicker';
+import AttendanceRegisterModal from '@/components/AttendanceRegisterModal';
+import AppealsReviewModal from '@/components/AppealsReviewModal';
+import RosterImportModal from '@/components/RosterImportModal';
+import RotatingQRCode from '@/components/RotatingQRCode';
+import SessionPolicyEditor from '@/components/SessionPolicyEditor';
+import SessionControls from '@/components/SessionControls';
+import ExportButtons from '@/components/ExportButtons';
+import AttendanceOverrideModal from '@/components/AttendanceOverrideModal';
+import ProxyReviewModal from '@/components/ProxyReviewModal';
+import SessionTimelineModal from '@/components/SessionTimelineModal';
+import SamplingIndicator from '@/components/SamplingIndicator';
+import GeofencePicker from '@/components/GeofencePicker';
+import { useAttendanceFeed } from '@/hooks/useAttendanceFeed';
 
 interface Student {
   name: string;
   registration_number: string;
-  status: 'present' | 'pending' | 'absent' | 'proxy';
+  status: 'present' | 'pending' | 'absent' | 'proxy' | 'excused';
   attendance?: Attendance;
 }
 
+type LocatedAttendance = Attendance & {
+  student_latitude: number;
+  student_longitude: number;
+  student_radius: number;
+  coverage_percentage: number;
+};
+
+// Absent rows materialized at session end have no position to plot
+const hasLocation = (attendance: Attendance): attendance is LocatedAttendance =>
+  attendance.student_latitude !== null &&
+  attendance.student_longitude !== null &&
+  attendance.student_radius !== null &&
+  attendance.coverage_percentage !== null;
+
 export default function FacultyTab() {
   const [user, setUser] = useState<User | null>(null);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [students, setStudents] = useState<Student[]>([]);
   const [sessionCode, setSessionCode] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
+  const [samplingProgress, setSamplingProgress] = useState<SamplingProgress | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
   const [sessionActive, setSessionActive] = useState(false);
   const [currentSession, setCurrentSession] = useState<Session | null>(null);
-  const [attendanceRecords, setAttendanceRecords] = useState<Attendance[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
+  const [showRegister, setShowRegister] = useState(false);
+  const [showRosterImport, setShowRosterImport] = useState(false);
+  const [showAppeals, setShowAppeals] = useState(false);
+  const [requireQR, setRequireQR] = useState(false);
+  const [requireWiFi, setRequireWiFi] = useState(false);
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [selectedGeofenceIds, setSelectedGeofenceIds] = useState<string[]>([]);
+  // Rooms the running (or just closed) session is bound to
+  const [sessionGeofences, setSessionGeofences] = useState<Geofence[]>([]);
+  const [policy, setPolicy] = useState<SessionPolicy>(DEFAULT_SESSION_POLICY);
+  const [showPolicy, setShowPolicy] = useState(false);
+  const [isSavingPolicy, setIsSavingPolicy] = useState(false);
+  const [closedSession, setClosedSession] = useState<Session | null>(null);
+  const [closedSessionRecords, setClosedSessionRecords] = useState<Attendance[]>([]);
+  const [isUpdatingSession, setIsUpdatingSession] = useState(false);
+  const [overrideStudent, setOverrideStudent] = useState<Student | null>(null);
+  const [showReviewQueue, setShowReviewQueue] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const { records: attendanceRecords, connection } = useAttendanceFeed(
+    sessionActive && currentSession ? currentSession.id : null
+  );
 
   useEffect(() => {
     checkUser();
   }, []);
 
+  // Countdown is derived from expires_at so extensions and pauses apply immediately
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (sessionActive && timeRemaining > 0) {
-      interval = setInterval(() => {
-        setTimeRemaining(prev => {
-          if (prev <= 1) {
-            endSession();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    }
+    if (!sessionActive || !currentSession) return;
+
+    const tick = () => {
+      const remaining = SessionUtils.secondsRemaining(currentSession);
+      setTimeRemaining(remaining);
+      if (remaining <= 0 && !SessionUtils.isPaused(currentSession)) {
+        clearInterval(interval);
+        endSession();
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    tick();
     return () => clearInterval(interval);
-  }, [sessionActive, timeRemaining]);
+  }, [sessionActive, currentSession]);
 
+  // Update student statuses as attendance rows stream in
   useEffect(() => {
-    if (sessionActive && currentSession) {
-      const interval = setInterval(() => {
-        fetchAttendanceRecords();
-      }, 2000);
-      return () => clearInterval(interval);
-    }
-  }, [sessionActive, currentSession]);
+    if (attendanceRecords.length === 0) return;
+    applyAttendanceRecords(attendanceRecords);
+  }, [attendanceRecords]);
+
+  // The live feed stops at close, so a closed session is reviewed from its stored rows
+  const closedSessionId = closedSession?.id ?? null;
+  useEffect(() => {
+    setClosedSessionRecords([]);
+    if (!closedSessionId) return;
+
+    let cancelled = false;
+    CourseService.fetchAttendanceForSessions([closedSessionId])
+      .then(records => {
+        if (!cancelled) setClosedSessionRecords(records);
+      })
+      .catch(error => console.error('Closed session load error:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [closedSessionId]);
 
   const checkUser = async () => {
     const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
@@ -95,45 +171,119 @@ export default function FacultyTab() {
     checkUser();
   };
 
-  const generateSessionCode = (): string => {
-    return Math.floor(100000 + Math.random() * 900000).toString();
-  };
+  const loadCourses = useCallback(async (): Promise<Course[]> => {
+    if (!user) return [];
 
-  const uploadExcel = async () => {
     try {
-      const result = await DocumentPicker.getDocumentAsync({
-        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        copyToCacheDirectory: true,
-      });
+      const data = await CourseService.fetchCourses(user.id);
+      setCourses(data);
+      return data;
+    } catch (error) {
+      console.error('Course load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load courses');
+      return [];
+    }
+  }, [user]);
 
-      if (!result.canceled && result.assets[0]) {
-        const fileUri = result.assets[0].uri;
-        const fileContent = await FileSystem.readAsStringAsync(fileUri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
+  const loadGeofences = useCallback(async () => {
+    try {
+      setGeofences(await GeofenceService.fetchActiveGeofences());
+    } catch (error) {
+      console.warn('Geofence load failed:', error);
+    }
+  }, []);
 
-        const workbook = XLSX.read(fileContent, { type: 'base64' });
-        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet);
+  // Pick up a session that is still running server-side, e.g. after the app was killed mid-lecture
+  const restoreActiveSession = useCallback(async (loadedCourses: Course[]) => {
+    if (!user) return;
 
-        const parsedStudents: Student[] = jsonData.map((row: any) => ({
-          name: (row.name || row.Name || '').toString().trim(),
-          registration_number: (row.registration_number || row['Registration Number'] || row.reg_no || '').toString().trim(),
-          status: 'pending' as const,
-        }));
+    try {
+      const session = await SessionService.fetchActiveSession(user.id);
+      if (!session) return;
 
-        setStudents(parsedStudents);
-        Alert.alert('Success', `${parsedStudents.length} students loaded from Excel file.`);
-      }
+      setSelectedCourse(loadedCourses.find(course => course.id === session.course_id) ?? null);
+      setPolicy(PolicyUtils.resolve(session.policy));
+      setRequireQR(session.qr_required);
+      setRequireWiFi(session.wifi_required);
+      const bound = await GeofenceService.fetchSessionGeofences(session.id);
+      setSessionGeofences(bound);
+      setSelectedGeofenceIds(bound.map(geofence => geofence.id));
+      // The session keeps its own roster snapshot; statuses are filled in by the attendance feed
+      setStudents(session.student_list.map(student => ({
+        name: student.name,
+        registration_number: student.registration_number,
+        status: 'pending' as const,
+      })));
+      setClosedSession(null);
+      setSessionCode(session.id);
+      setTimeRemaining(SessionUtils.secondsRemaining(session));
+      setCurrentSession(session);
+      setSessionActive(true);
+    } catch (error) {
+      console.error('Session restore error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to restore active session');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user && user.approval_status === 'approved') {
+      loadCourses().then(restoreActiveSession);
+      loadGeofences();
+    }
+  }, [user, loadCourses, restoreActiveSession, loadGeofences]);
+
+  const createCourse = async (code: string, name: string) => {
+    if (!user) return;
+
+    try {
+      const course = await CourseService.createCourse(user.id, code, name);
+      setCourses(prev => [...prev, course].sort((a, b) => a.code.localeCompare(b.code)));
+      await selectCourse(course);
+    } catch (error) {
+      console.error('Course creation error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create course');
+    }
+  };
+
+  const selectCourse = async (course: Course) => {
+    setSelectedCourse(course);
+    setPolicy(PolicyUtils.resolve(course.default_policy));
+    setStudents([]);
+
+    try {
+      const roster = await CourseService.fetchRoster(course.id);
+      setStudents(roster.map(enrollment => ({
+        name: enrollment.student_name,
+        registration_number: enrollment.registration_number,
+        status: 'pending' as const,
+      })));
     } catch (error) {
-      console.error('Excel upload error:', error);
-      Alert.alert('Error', 'Failed to read Excel file. Please try again.');
+      console.error('Roster load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load roster');
     }
   };
 
+  const generateSessionCode = (): string => {
+    return Math.floor(100000 + Math.random() * 900000).toString();
+  };
+
+  const handleRosterImported = (roster: RosterEntry[]) => {
+    setShowRosterImport(false);
+    setStudents(roster.map(entry => ({
+      name: entry.name,
+      registration_number: entry.registration_number,
+      status: 'pending' as const,
+    })));
+  };
+
   const startSession = async () => {
+    if (!selectedCourse) {
+      Alert.alert('Error', 'Please select a course first.');
+      return;
+    }
+
     if (students.length === 0) {
-      Alert.alert('Error', 'Please upload a student list first.');
+      Alert.alert('Error', 'The selected course has no students. Please upload a roster first.');
       return;
     }
 
@@ -142,80 +292,120 @@ export default function FacultyTab() {
       return;
     }
 
+    const policyError = PolicyUtils.validate(policy);
+    if (policyError) {
+      Alert.alert('Error', policyError);
+      return;
+    }
+
     setIsLoading(true);
     try {
       // Get pinpoint location
-      const locationData = await LocationService.getHighAccuracyLocation();
+      const locationData = await LocationService.getHighAccuracyLocation({
+        windowMs: ANCHOR_SAMPLE_WINDOW_MS,
+        onProgress: setSamplingProgress,
+      });
       
+      // With rooms bound, the faculty position only centres the map
+      const boundGeofences = geofences.filter(geofence => selectedGeofenceIds.includes(geofence.id));
+      if (
+        boundGeofences.length === 0 &&
+        !LocationService.validateLocationForAttendance(locationData, policy.max_accuracy)
+      ) {
+        throw new Error(
+          `Location accuracy of ${locationData.coords.accuracy.toFixed(1)}m is worse than the ${policy.max_accuracy}m allowed by this policy. Please try again.`
+        );
+      }
+
       // Generate session code
       const code = generateSessionCode();
-      const sessionRadius = locationData.coords.accuracy + 10; // accuracy + 10 meters
-      
-      // Create session in database
-      const { error } = await supabase
+      const sessionRadius = locationData.coords.accuracy + policy.radius_padding;
+
+      // Create session in database; expires_at is derived from the policy duration
+      const { data: session, error } = await supabase
         .from('sessions')
         .insert({
           id: code,
           faculty_id: user.id,
           faculty_name: user.name,
+          course_id: selectedCourse.id,
           student_list: students.map(s => ({ name: s.name, registration_number: s.registration_number })),
           session_latitude: locationData.coords.latitude,
           session_longitude: locationData.coords.longitude,
           session_accuracy: locationData.coords.accuracy,
           session_radius: sessionRadius,
-          wifi_ssid: locationData.wifiSSID || 'iBUS@MUJ',
-          expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+          wifi_ssid: locationData.network.ssid,
+          wifi_bssid: locationData.network.bssid,
+          connection_type: locationData.network.connectionType,
+          wifi_bypassed: locationData.network.bypassed,
+          wifi_required: requireWiFi,
+          qr_required: requireQR,
+          policy,
           is_active: true,
-        });
+        })
+        .select()
+        .single();
+
+      if (error || !session) {
+        throw new Error(`Failed to create session: ${error?.message ?? 'No session returned'}`);
+      }
 
-      if (error) {
-        throw new Error(`Failed to create session: ${error.message}`);
+      // The code is only shown once the rooms are bound, so no submission sees the circle instead
+      try {
+        await GeofenceService.bindSessionGeofences(session.id, boundGeofences.map(geofence => geofence.id));
+      } catch (bindError) {
+        await SessionService.closeSession(session.id).catch(closeError =>
+          console.warn('Session close after failed binding failed:', closeError)
+        );
+        throw bindError;
       }
+      setSessionGeofences(boundGeofences);
 
+      setClosedSession(null);
       setSessionCode(code);
-      setTimeRemaining(600); // 10 minutes
+      setTimeRemaining(Math.max(0, Math.floor((new Date(session.expires_at).getTime() - Date.now()) / 1000)));
       setSessionActive(true);
-      setCurrentSession({
-        id: code,
-        faculty_id: user.id,
-        faculty_name: user.name,
-        student_list: students.map(s => ({ name: s.name, registration_number: s.registration_number })),
-        session_latitude: locationData.coords.latitude,
-        session_longitude: locationData.coords.longitude,
-        session_accuracy: locationData.coords.accuracy,
-        session_radius: sessionRadius,
-        wifi_ssid: locationData.wifiSSID || 'iBUS@MUJ',
-        is_active: true,
-        expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
-        created_at: new Date().toISOString(),
-      });
+      setCurrentSession(session);
 
       Alert.alert(
         'Session Created!',
-        `Session Code: ${code}\nValid for 10 minutes\nRadius: ${Math.round(sessionRadius)}m\nLocation: ${locationData.coords.latitude.toFixed(6)}, ${locationData.coords.longitude.toFixed(6)}`
+        `Session Code: ${code}\nValid for ${policy.duration_minutes} minutes\n` +
+          (boundGeofences.length > 0
+            ? `Rooms: ${boundGeofences.map(geofence => geofence.name).join(', ')}`
+            : `Radius: ${Math.round(sessionRadius)}m\nLocation: ${locationData.coords.latitude.toFixed(6)}, ${locationData.coords.longitude.toFixed(6)}`)
       );
     } catch (error) {
       console.error('Session creation error:', error);
       Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create session');
     } finally {
       setIsLoading(false);
+      setSamplingProgress(null);
     }
   };
 
   const endSession = async () => {
     if (currentSession) {
-      // Mark session as inactive
-      await supabase
-        .from('sessions')
-        .update({ is_active: false })
-        .eq('id', currentSession.id);
+      // Mark session as inactive and persist absent rows for unmarked students
+      try {
+        await SessionService.closeSession(currentSession.id);
+        setClosedSession({
+          ...currentSession,
+          is_active: false,
+          paused_at: null,
+          closed_at: new Date().toISOString(),
+        });
+      } catch (error) {
+        // Nothing was saved, so the session stays open and can be ended again
+        console.error('Session close error:', error);
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to close session');
+        return;
+      }
 
       // Convert pending to absent
-      const updatedStudents = students.map(student => ({
+      setStudents(prev => prev.map(student => ({
         ...student,
         status: student.status === 'pending' ? 'absent' as const : student.status
-      }));
-      setStudents(updatedStudents);
+      })));
     }
     
     setSessionActive(false);
@@ -223,53 +413,119 @@ export default function FacultyTab() {
     setCurrentSession(null);
   };
 
-  const fetchAttendanceRecords = async () => {
-    if (!currentSession) return;
+  const applyAttendanceRecords = (records: Attendance[]) => {
+    setStudents(prev => prev.map(student => {
+      const attendance = records.find(a =>
+        a.student_registration.toLowerCase() === student.registration_number.toLowerCase()
+      );
 
-    const { data } = await supabase
-      .from('attendance')
-      .select('*')
-      .eq('session_id', currentSession.id);
+      if (attendance) {
+        return {
+          ...student,
+          status: StatusUtils.getEffectiveStatus(attendance),
+          attendance
+        };
+      }
+      return student;
+    }));
+  };
 
-    if (data) {
-      setAttendanceRecords(data);
-      
-      // Update student statuses
-      const updatedStudents = students.map(student => {
-        const attendance = data.find(a => 
+  const overrideStudentStatus = async (status: AttendanceStatus | null, reason: string) => {
+    if (!reviewSession || !overrideStudent) return;
+
+    const record = await AttendanceService.overrideAttendance(
+      reviewSession.id,
+      overrideStudent.registration_number,
+      status,
+      reason
+    );
+    applyAttendanceRecords([record]);
+    setClosedSessionRecords(prev => prev.map(existing => (existing.id === record.id ? record : existing)));
+  };
+
+  const updateRunningSession = async (action: () => Promise<Session>) => {
+    setIsUpdatingSession(true);
+    try {
+      const updated = await action();
+      setCurrentSession(updated);
+    } catch (error) {
+      console.error('Session update error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update session');
+    } finally {
+      setIsUpdatingSession(false);
+    }
+  };
+
+  const reopenSession = async (minutes: number) => {
+    if (!closedSession) return;
+
+    setIsUpdatingSession(true);
+    try {
+      const reopened = await SessionService.reopenSession(closedSession.id, minutes);
+
+      // Only plain absentees were removed server-side; overridden and appealed rows are kept
+      const records = await CourseService.fetchAttendanceForSessions([reopened.id]);
+      setStudents(prev => prev.map(student => {
+        const attendance = records.find(a =>
           a.student_registration.toLowerCase() === student.registration_number.toLowerCase()
         );
-        
-        if (attendance) {
-          return {
-            ...student,
-            status: attendance.status,
-            attendance
-          };
-        }
-        return student;
-      });
-      
-      setStudents(updatedStudents);
+        return attendance
+          ? { ...student, status: StatusUtils.getEffectiveStatus(attendance), attendance }
+          : { ...student, status: 'pending' as const, attendance: undefined };
+      }));
+      setSessionCode(reopened.id);
+      setCurrentSession(reopened);
+      setSessionActive(true);
+      setClosedSession(null);
+    } catch (error) {
+      console.error('Session reopen error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reopen session');
+    } finally {
+      setIsUpdatingSession(false);
     }
   };
 
-  const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const exportClosedSession = async (format: ExportFormat) => {
+    if (!closedSession) return;
+
+    const records = await CourseService.fetchAttendanceForSessions([closedSession.id]);
+    const course = courses.find(c => c.id === closedSession.course_id) ?? null;
+    await ExportService.exportSession(closedSession, records, course, format);
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'present': return '#10B981';
-      case 'proxy': return '#F59E0B';
-      case 'pending': return '#6B7280';
-      case 'absent': return '#EF4444';
-      default: return '#6B7280';
+  const saveCourseDefaultPolicy = async () => {
+    if (!selectedCourse) return;
+
+    setIsSavingPolicy(true);
+    try {
+      const updated = await CourseService.updateDefaultPolicy(selectedCourse.id, policy);
+      handleCourseUpdated(updated);
+      Alert.alert('Saved', `Default policy updated for ${updated.code}.`);
+    } catch (error) {
+      console.error('Policy save error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save policy');
+    } finally {
+      setIsSavingPolicy(false);
     }
   };
 
+  const handleCourseUpdated = (course: Course) => {
+    setSelectedCourse(course);
+    setCourses(prev => prev.map(c => (c.id === course.id ? course : c)));
+  };
+
+  // Overrides apply to the running session, or the one just closed
+  const reviewSession = sessionActive ? currentSession : closedSession;
+  const unreviewedProxyCount = students.filter(student =>
+    student.attendance?.status === 'proxy' && !StatusUtils.isOverridden(student.attendance)
+  ).length;
+  const reviewRecords = sessionActive ? attendanceRecords : closedSessionRecords;
+  const clusterAnalysis = useMemo(
+    () => (reviewSession ? ClusterUtils.analyze(reviewSession, reviewRecords, sessionGeofences) : null),
+    [reviewSession, reviewRecords, sessionGeofences]
+  );
+  const mapClusters = clusterAnalysis?.clusters.filter(cluster => cluster.kind !== 'network') ?? [];
+
   if (!user) {
     return (
       <View style={styles.container}>
@@ -298,6 +554,35 @@ export default function FacultyTab() {
     );
   }
 
+  if (user.approval_status !== 'approved') {
+    const isRejected = user.approval_status === 'rejected';
+    return (
+      <View style={styles.container}>
+        <View style={styles.errorContainer}>
+          <MaterialIcons
+            name={isRejected ? 'block' : 'hourglass-empty'}
+            size={48}
+            color={isRejected ? '#EF4444' : '#F59E0B'}
+          />
+          <Text style={[styles.errorText, !isRejected && styles.pendingText]}>
+            {isRejected ? 'Faculty access declined' : 'Awaiting approval'}
+          </Text>
+          <Text style={styles.errorSubtext}>
+            {isRejected
+              ? 'An administrator declined this faculty account. Contact your department office.'
+              : 'An administrator needs to approve your faculty account before you can run sessions.'}
+          </Text>
+          {!isRejected && (
+            <TouchableOpacity style={styles.checkApprovalButton} onPress={checkUser}>
+              <MaterialIcons name="refresh" size={20} color="#3B82F6" />
+              <Text style={styles.checkApprovalButtonText}>Check Again</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  }
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
       <LoginModal 
@@ -305,28 +590,122 @@ export default function FacultyTab() {
         onClose={() => setShowLoginModal(false)}
         onSuccess={handleLoginSuccess}
       />
+      {reviewSession && (
+        <SessionTimelineModal
+          visible={showTimeline}
+          sessionId={reviewSession.id}
+          onClose={() => setShowTimeline(false)}
+        />
+      )}
       
       <View style={styles.header}>
         <MaterialIcons name="school" size={40} color="#3B82F6" />
         <Text style={styles.title}>Faculty Dashboard</Text>
-        <Text style={styles.subtitle}>Upload student list and manage attendance</Text>
+        <Text style={styles.subtitle}>Select a course and manage attendance</Text>
       </View>
 
       <View style={styles.card}>
-        <Text style={styles.cardTitle}>Step 1: Upload Student List</Text>
-        <TouchableOpacity style={styles.uploadButton} onPress={uploadExcel}>
-          <MaterialIcons name="upload-file" size={24} color="#FFFFFF" />
-          <Text style={styles.uploadButtonText}>Upload Excel File</Text>
-        </TouchableOpacity>
-        {students.length > 0 && (
-          <Text style={styles.studentCount}>
-            {students.length} students loaded
-          </Text>
-        )}
+        <Text style={styles.cardTitle}>Step 1: Select Course</Text>
+        <CoursePicker
+          courses={courses}
+          selectedCourseId={selectedCourse?.id ?? null}
+          disabled={sessionActive}
+          onSelect={selectCourse}
+          onCreate={createCourse}
+        />
       </View>
 
+      {selectedCourse && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Step 2: Course Roster</Text>
+          <TouchableOpacity
+            style={[styles.uploadButton, sessionActive && styles.disabledButton]}
+            onPress={() => setShowRosterImport(true)}
+            disabled={sessionActive}
+          >
+            <MaterialIcons name="upload-file" size={24} color="#FFFFFF" />
+            <Text style={styles.uploadButtonText}>
+              {students.length > 0 ? 'Replace Roster from File' : 'Import Roster from File'}
+            </Text>
+          </TouchableOpacity>
+          <RosterImportModal
+            visible={showRosterImport}
+            course={selectedCourse}
+            existingRoster={students.map(s => ({ name: s.name, registration_number: s.registration_number }))}
+            onClose={() => setShowRosterImport(false)}
+            onImported={handleRosterImported}
+          />
+          <Text style={students.length > 0 ? styles.studentCount : styles.emptyRosterText}>
+            {students.length > 0
+              ? `${students.length} students enrolled in ${selectedCourse.code}`
+              : 'No students enrolled yet'}
+          </Text>
+          <TouchableOpacity style={styles.registerButton} onPress={() => setShowRegister(true)}>
+            <MaterialIcons name="grid-on" size={20} color="#3B82F6" />
+            <Text style={styles.registerButtonText}>View Attendance Register</Text>
+          </TouchableOpacity>
+          <AttendanceRegisterModal
+            visible={showRegister}
+            course={selectedCourse}
+            onClose={() => setShowRegister(false)}
+            onCourseUpdated={handleCourseUpdated}
+          />
+          <TouchableOpacity style={styles.registerButton} onPress={() => setShowAppeals(true)}>
+            <MaterialIcons name="gavel" size={20} color="#3B82F6" />
+            <Text style={styles.registerButtonText}>Review Student Appeals</Text>
+          </TouchableOpacity>
+          <AppealsReviewModal
+            visible={showAppeals}
+            course={selectedCourse}
+            onClose={() => setShowAppeals(false)}
+          />
+        </View>
+      )}
+
       <View style={styles.card}>
-        <Text style={styles.cardTitle}>Step 2: Start Session</Text>
+        <Text style={styles.cardTitle}>Step 3: Start Session</Text>
+        {geofences.length > 0 && (
+          <GeofencePicker
+            geofences={geofences}
+            selectedIds={selectedGeofenceIds}
+            disabled={sessionActive}
+            onChange={setSelectedGeofenceIds}
+          />
+        )}
+        <View style={styles.optionRow}>
+          <View style={styles.optionInfo}>
+            <Text style={styles.optionLabel}>Require QR scan</Text>
+            <Text style={styles.optionHint}>Students must also scan the rotating code on your screen</Text>
+          </View>
+          <Switch value={requireQR} onValueChange={setRequireQR} disabled={sessionActive} />
+        </View>
+        <View style={styles.optionRow}>
+          <View style={styles.optionInfo}>
+            <Text style={styles.optionLabel}>Require campus WiFi</Text>
+            <Text style={styles.optionHint}>Submissions from other networks are flagged as proxy for review</Text>
+          </View>
+          <Switch value={requireWiFi} onValueChange={setRequireWiFi} disabled={sessionActive} />
+        </View>
+        <TouchableOpacity
+          style={styles.policyToggle}
+          onPress={() => setShowPolicy(!showPolicy)}
+        >
+          <Text style={styles.policySummary}>
+            {policy.duration_minutes} min · +{policy.radius_padding}m radius · {policy.coverage_threshold}% coverage
+          </Text>
+          <MaterialIcons name={showPolicy ? 'expand-less' : 'expand-more'} size={20} color="#6B7280" />
+        </TouchableOpacity>
+        {showPolicy && (
+          <View style={styles.policyEditor}>
+            <SessionPolicyEditor
+              policy={policy}
+              disabled={sessionActive}
+              isSavingDefault={isSavingPolicy}
+              onChange={setPolicy}
+              onSaveDefault={selectedCourse ? saveCourseDefaultPolicy : undefined}
+            />
+          </View>
+        )}
         <TouchableOpacity
           style={[styles.createButton, (students.length === 0 || sessionActive) && styles.disabledButton]}
           onPress={startSession}
@@ -341,8 +720,41 @@ export default function FacultyTab() {
             </>
           )}
         </TouchableOpacity>
+        {samplingProgress && <SamplingIndicator progress={samplingProgress} />}
       </View>
 
+      {!sessionActive && closedSession && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Export Session {closedSession.id}</Text>
+          <ExportButtons onExport={exportClosedSession} />
+          <TouchableOpacity style={styles.registerButton} onPress={() => setShowTimeline(true)}>
+            <MaterialIcons name="timeline" size={20} color="#3B82F6" />
+            <Text style={styles.registerButtonText}>View Session Timeline</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {!sessionActive && closedSession && SessionUtils.canReopen(closedSession) && (
+        <View style={styles.reopenCard}>
+          <Text style={styles.cardTitle}>Session {closedSession.id} Closed</Text>
+          <Text style={styles.reopenText}>
+            Latecomers? You can reopen this session within {REOPEN_WINDOW_MINUTES} minutes of closing it.
+          </Text>
+          <View style={styles.reopenRow}>
+            {[2, 5].map(minutes => (
+              <TouchableOpacity
+                key={minutes}
+                style={styles.reopenButton}
+                onPress={() => reopenSession(minutes)}
+                disabled={isUpdatingSession}
+              >
+                <Text style={styles.reopenButtonText}>Reopen {minutes} min</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
       {sessionActive && currentSession && (
         <>
           <View style={styles.sessionCard}>
@@ -351,17 +763,45 @@ export default function FacultyTab() {
               <Text style={styles.codeLabel}>Session Code:</Text>
               <Text style={styles.code}>{sessionCode}</Text>
             </View>
+            <RotatingQRCode sessionId={currentSession.id} />
             <View style={styles.timerContainer}>
               <MaterialIcons name="timer" size={24} color="#EF4444" />
-              <Text style={styles.timer}>{formatTime(timeRemaining)}</Text>
+              <Text style={styles.timer}>{SessionUtils.formatTime(timeRemaining)}</Text>
+              {SessionUtils.isPaused(currentSession) && (
+                <Text style={styles.pausedLabel}>PAUSED</Text>
+              )}
             </View>
+            <SessionControls
+              isPaused={SessionUtils.isPaused(currentSession)}
+              disabled={isUpdatingSession}
+              onExtend={(minutes) => updateRunningSession(() => SessionService.extendSession(currentSession.id, minutes))}
+              onPause={() => updateRunningSession(() => SessionService.pauseSession(currentSession.id))}
+              onResume={() => updateRunningSession(() => SessionService.resumeSession(currentSession.id))}
+            />
+            <TouchableOpacity style={styles.timelineButton} onPress={() => setShowTimeline(true)}>
+              <MaterialIcons name="timeline" size={20} color="#3B82F6" />
+              <Text style={styles.registerButtonText}>View Timeline</Text>
+            </TouchableOpacity>
             <TouchableOpacity style={styles.endButton} onPress={endSession}>
               <Text style={styles.endButtonText}>End Session</Text>
             </TouchableOpacity>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Live Map View</Text>
+            <View style={styles.mapHeader}>
+              <Text style={styles.mapTitle}>Live Map View</Text>
+              <View style={styles.feedStatus}>
+                <View
+                  style={[
+                    styles.feedDot,
+                    { backgroundColor: connection === 'live' ? '#10B981' : '#F59E0B' },
+                  ]}
+                />
+                <Text style={styles.feedStatusText}>
+                  {connection === 'live' ? 'Live' : connection === 'polling' ? 'Reconnecting…' : 'Connecting…'}
+                </Text>
+              </View>
+            </View>
             <MapView
               style={styles.map}
               initialRegion={{
@@ -371,17 +811,29 @@ export default function FacultyTab() {
                 longitudeDelta: 0.001,
               }}
             >
-              {/* Faculty location circle */}
-              <Circle
-                center={{
-                  latitude: currentSession.session_latitude,
-                  longitude: currentSession.session_longitude,
-                }}
-                radius={currentSession.session_radius}
-                fillColor="rgba(59, 130, 246, 0.2)"
-                strokeColor="#3B82F6"
-                strokeWidth={2}
-              />
+              {/* Session area: bound rooms, or the faculty location circle */}
+              {sessionGeofences.length > 0 ? (
+                sessionGeofences.map((geofence) => (
+                  <Polygon
+                    key={geofence.id}
+                    coordinates={geofence.polygon}
+                    fillColor="rgba(59, 130, 246, 0.2)"
+                    strokeColor="#3B82F6"
+                    strokeWidth={2}
+                  />
+                ))
+              ) : (
+                <Circle
+                  center={{
+                    latitude: currentSession.session_latitude,
+                    longitude: currentSession.session_longitude,
+                  }}
+                  radius={currentSession.session_radius}
+                  fillColor="rgba(59, 130, 246, 0.2)"
+                  strokeColor="#3B82F6"
+                  strokeWidth={2}
+                />
+              )}
               
               {/* Faculty marker */}
               <Marker
@@ -390,35 +842,84 @@ export default function FacultyTab() {
                   longitude: currentSession.session_longitude,
                 }}
                 title="Faculty Location"
-                description={`Radius: ${Math.round(currentSession.session_radius)}m`}
+                description={
+                  sessionGeofences.length > 0
+                    ? sessionGeofences.map(geofence => geofence.name).join(', ')
+                    : `Radius: ${Math.round(currentSession.session_radius)}m`
+                }
                 pinColor="#3B82F6"
               />
 
-              {/* Student markers */}
-              {attendanceRecords.map((attendance) => (
-                <React.Fragment key={attendance.id}>
+              {/* Suspicious clusters */}
+              {mapClusters.map((cluster) => (
+                <React.Fragment key={`${cluster.kind}-${cluster.attendanceIds.join('-')}`}>
                   <Circle
-                    center={{
-                      latitude: attendance.student_latitude,
-                      longitude: attendance.student_longitude,
-                    }}
-                    radius={attendance.student_radius}
-                    fillColor={attendance.status === 'present' ? "rgba(16, 185, 129, 0.2)" : "rgba(245, 158, 11, 0.2)"}
-                    strokeColor={attendance.status === 'present' ? "#10B981" : "#F59E0B"}
-                    strokeWidth={1}
+                    center={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+                    radius={cluster.radius}
+                    fillColor="rgba(239, 68, 68, 0.15)"
+                    strokeColor="#EF4444"
+                    strokeWidth={2}
+                    lineDashPattern={[6, 4]}
                   />
                   <Marker
-                    coordinate={{
-                      latitude: attendance.student_latitude,
-                      longitude: attendance.student_longitude,
-                    }}
-                    title={attendance.student_name}
-                    description={`${attendance.student_registration} - ${attendance.status.toUpperCase()}\nCoverage: ${attendance.coverage_percentage.toFixed(1)}%`}
-                    pinColor={attendance.status === 'present' ? "#10B981" : "#F59E0B"}
+                    coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+                    title="Possible proxy cluster"
+                    description={cluster.explanation}
+                    pinColor="#EF4444"
                   />
                 </React.Fragment>
               ))}
+
+              {/* Student markers */}
+              {attendanceRecords.filter(hasLocation).map((attendance) => {
+                const effectiveStatus = StatusUtils.getEffectiveStatus(attendance);
+                const findings = clusterAnalysis?.findings[attendance.id] ?? [];
+                return (
+                  <React.Fragment key={attendance.id}>
+                    <Circle
+                      center={{
+                        latitude: attendance.student_latitude,
+                        longitude: attendance.student_longitude,
+                      }}
+                      radius={attendance.student_radius}
+                      fillColor={effectiveStatus === 'present' ? "rgba(16, 185, 129, 0.2)" : "rgba(245, 158, 11, 0.2)"}
+                      strokeColor={effectiveStatus === 'present' ? "#10B981" : "#F59E0B"}
+                      strokeWidth={1}
+                    />
+                    <Marker
+                      coordinate={{
+                        latitude: attendance.student_latitude,
+                        longitude: attendance.student_longitude,
+                      }}
+                      title={attendance.student_name}
+                      description={[
+                        `${attendance.student_registration} - ${effectiveStatus.toUpperCase()}`,
+                        `Coverage: ${attendance.coverage_percentage.toFixed(1)}%`,
+                        ...findings,
+                      ].join('\n')}
+                      pinColor={findings.length > 0 ? "#EF4444" : effectiveStatus === 'present' ? "#10B981" : "#F59E0B"}
+                    />
+                  </React.Fragment>
+                );
+              })}
             </MapView>
+            {clusterAnalysis && (
+              <View style={styles.clusterSummary}>
+                {clusterAnalysis.clusters.map((cluster) => (
+                  <View key={`${cluster.kind}-${cluster.attendanceIds.join('-')}`} style={styles.clusterRow}>
+                    <MaterialIcons
+                      name={cluster.kind === 'network' ? 'wifi' : cluster.kind === 'timing' ? 'schedule' : 'place'}
+                      size={16}
+                      color="#EF4444"
+                    />
+                    <Text style={styles.clusterText}>{cluster.explanation}</Text>
+                  </View>
+                ))}
+                <Text style={styles.clusterNote}>
+                  Attempts from a device already used in this session are rejected when marking and are not listed here
+                </Text>
+              </View>
+            )}
           </View>
         </>
       )}
@@ -426,24 +927,78 @@ export default function FacultyTab() {
       {students.length > 0 && (
         <View style={styles.card}>
           <Text style={styles.cardTitle}>Student Attendance</Text>
+          {reviewSession && (
+            <>
+              <TouchableOpacity style={styles.reviewButton} onPress={() => setShowReviewQueue(true)}>
+                <MaterialIcons name="rule" size={20} color="#F59E0B" />
+                <Text style={styles.reviewButtonText}>
+                  Review Proxy Verdicts{unreviewedProxyCount > 0 ? ` (${unreviewedProxyCount})` : ''}
+                </Text>
+              </TouchableOpacity>
+              <Text style={styles.overrideHint}>Tap a student to override their status</Text>
+              <ProxyReviewModal
+                visible={showReviewQueue}
+                session={reviewSession}
+                onClose={() => setShowReviewQueue(false)}
+                onOverridden={(record) => applyAttendanceRecords([record])}
+              />
+              <AttendanceOverrideModal
+                visible={overrideStudent !== null}
+                studentName={overrideStudent?.name ?? ''}
+                registrationNumber={overrideStudent?.registration_number ?? ''}
+                record={overrideStudent?.attendance}
+                onClose={() => setOverrideStudent(null)}
+                onSubmit={overrideStudentStatus}
+              />
+            </>
+          )}
           {students.map((student, index) => (
-            <View key={index} style={styles.studentRow}>
+            <TouchableOpacity
+              key={index}
+              style={styles.studentRow}
+              onPress={() => setOverrideStudent(student)}
+              disabled={!reviewSession}
+            >
               <View style={styles.studentInfo}>
                 <Text style={styles.studentName}>{student.name}</Text>
                 <Text style={styles.studentReg}>{student.registration_number}</Text>
-                {student.attendance && (
+                {student.attendance &&
+                  student.attendance.coverage_percentage !== null &&
+                  student.attendance.distance_from_session !== null && (
                   <Text style={styles.studentDetails}>
                     Coverage: {student.attendance.coverage_percentage.toFixed(1)}% | 
                     Distance: {student.attendance.distance_from_session.toFixed(1)}m
                   </Text>
                 )}
+                {student.attendance && NetworkUtils.describeConnection(student.attendance) && (
+                  <Text style={styles.studentDetails}>
+                    Network: {NetworkUtils.describeConnection(student.attendance)}
+                  </Text>
+                )}
+                {student.attendance?.spoof_risk_score != null && student.attendance.spoof_risk_score > 0 && (
+                  <Text style={[styles.spoofText, { color: SpoofUtils.getRiskColor(student.attendance.spoof_risk_score) }]}>
+                    Spoof risk {student.attendance.spoof_risk_score}
+                    {SpoofUtils.describeSignals(student.attendance.spoof_signals).length > 0 &&
+                      `: ${SpoofUtils.describeSignals(student.attendance.spoof_signals).join(', ')}`}
+                  </Text>
+                )}
+                {student.attendance && clusterAnalysis?.findings[student.attendance.id]?.map((finding) => (
+                  <Text key={finding} style={styles.clusterText}>
+                    {finding}
+                  </Text>
+                ))}
+                {student.attendance?.override_reason && (
+                  <Text style={styles.overrideText}>
+                    Overridden from {student.attendance.status.toUpperCase()}: {student.attendance.override_reason}
+                  </Text>
+                )}
               </View>
-              <View style={[styles.statusBadge, { backgroundColor: getStatusColor(student.status) + '20' }]}>
-                <Text style={[styles.statusText, { color: getStatusColor(student.status) }]}>
+              <View style={[styles.statusBadge, { backgroundColor: StatusUtils.getStatusColor(student.status) + '20' }]}>
+                <Text style={[styles.statusText, { color: StatusUtils.getStatusColor(student.status) }]}>
                   {student.status.toUpperCase()}
                 </Text>
               </View>
-            </View>
+            </TouchableOpacity>
           ))}
         </View>
       )}
@@ -487,6 +1042,24 @@ const styles = StyleSheet.create({
     marginTop: 5,
     textAlign: 'center',
   },
+  pendingText: {
+    color: '#F59E0B',
+  },
+  checkApprovalButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginTop: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+  },
+  checkApprovalButtonText: {
+    color: '#3B82F6',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   header: {
     alignItems: 'center',
     marginBottom: 30,
@@ -541,6 +1114,27 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     textAlign: 'center',
   },
+  emptyRosterText: {
+    color: '#6B7280',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  registerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    marginTop: 15,
+  },
+  registerButtonText: {
+    color: '#3B82F6',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
   createButton: {
     backgroundColor: '#10B981',
     flexDirection: 'row',
@@ -558,6 +1152,40 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#9CA3AF',
   },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  optionInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  optionHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  policyToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    marginBottom: 10,
+  },
+  policySummary: {
+    fontSize: 14,
+    color: '#6B7280',
+    flex: 1,
+  },
+  policyEditor: {
+    marginBottom: 15,
+  },
   sessionCard: {
     backgroundColor: '#EEF2FF',
     borderRadius: 12,
@@ -602,6 +1230,52 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     fontFamily: 'monospace',
   },
+  pausedLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F59E0B',
+    marginLeft: 8,
+  },
+  reopenCard: {
+    backgroundColor: '#FFFBEB',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#F59E0B',
+  },
+  reopenText: {
+    fontSize: 14,
+    color: '#92400E',
+    marginBottom: 12,
+  },
+  reopenRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  reopenButton: {
+    flex: 1,
+    backgroundColor: '#F59E0B',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  reopenButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  timelineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    backgroundColor: '#FFFFFF',
+    marginBottom: 10,
+  },
   endButton: {
     backgroundColor: '#EF4444',
     padding: 12,
@@ -613,6 +1287,31 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  mapHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 15,
+  },
+  mapTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  feedStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  feedDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  feedStatusText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
   map: {
     height: 300,
     borderRadius: 8,
@@ -643,6 +1342,57 @@ const styles = StyleSheet.create({
     color: '#9CA3AF',
     marginTop: 2,
   },
+  overrideText: {
+    fontSize: 12,
+    color: '#3B82F6',
+    marginTop: 2,
+  },
+  spoofText: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  clusterSummary: {
+    marginTop: 12,
+  },
+  clusterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  clusterText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#EF4444',
+    marginTop: 2,
+  },
+  clusterNote: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 6,
+  },
+  reviewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#F59E0B',
+    marginBottom: 8,
+  },
+  reviewButtonText: {
+    color: '#F59E0B',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  overrideHint: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
   statusBadge: {
     paddingHorizontal: 12,
     paddingVertical: 6,
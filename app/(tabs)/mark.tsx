@@ -10,21 +10,71 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { LocationService } from '@/services/LocationService';
-import { CircleUtils } from '@/utils/CircleUtils';
-import { supabase, User, Session } from '@/lib/supabase';
+import { SamplingProgress } from '@/services/LocationSampler';
+import { LocationService, LocationData } from '@/services/LocationService';
+import { RosterUtils } from '@/utils/RosterUtils';
+import { AttendanceQRPayload } from '@/utils/QRUtils';
+import { PolicyUtils } from '@/utils/PolicyUtils';
+import { SessionUtils } from '@/utils/SessionUtils';
+import { SessionService } from '@/services/SessionService';
+import { DeviceService } from '@/services/DeviceService';
+import { supabase, User, Session, Attendance } from '@/lib/supabase';
+import QRScannerModal from '@/components/QRScannerModal';
+import StudentAppealsModal from '@/components/StudentAppealsModal';
+import SamplingIndicator from '@/components/SamplingIndicator';
+
+type ScannerPurpose = 'find' | 'mark';
 
 export default function MarkAttendanceTab() {
   const [user, setUser] = useState<User | null>(null);
   const [sessionCode, setSessionCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [samplingProgress, setSamplingProgress] = useState<SamplingProgress | null>(null);
   const [currentSession, setCurrentSession] = useState<Session | null>(null);
   const [attendanceMarked, setAttendanceMarked] = useState(false);
+  const [scannerPurpose, setScannerPurpose] = useState<ScannerPurpose | null>(null);
+  const [pendingLocation, setPendingLocation] = useState<LocationData | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [showAppeals, setShowAppeals] = useState(false);
+  const [appealRecordId, setAppealRecordId] = useState<string | null>(null);
 
   useEffect(() => {
     checkUser();
   }, []);
 
+  // Pick up extensions, pauses and early closes made by the faculty
+  useEffect(() => {
+    if (!currentSession || attendanceMarked) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const latest = await SessionService.fetchSession(currentSession.id);
+        if (!latest || !latest.is_active) {
+          clearInterval(interval);
+          Alert.alert('Session Closed', 'This session is no longer accepting attendance.');
+          resetForm();
+          return;
+        }
+        if (latest.expires_at !== currentSession.expires_at || latest.paused_at !== currentSession.paused_at) {
+          setCurrentSession(latest);
+        }
+      } catch (error) {
+        console.warn('Session refresh failed:', error);
+      }
+    }, 10000);
+
+    return () => clearInterval(interval);
+  }, [currentSession, attendanceMarked]);
+
+  useEffect(() => {
+    if (!currentSession) return;
+
+    const update = () => setSecondsLeft(SessionUtils.secondsRemaining(currentSession));
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [currentSession]);
+
   const checkUser = async () => {
     const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
     
@@ -45,8 +95,8 @@ export default function MarkAttendanceTab() {
     }
   };
 
-  const findSession = async () => {
-    if (!sessionCode.trim()) {
+  const findSession = async (code: string = sessionCode) => {
+    if (!code.trim()) {
       Alert.alert('Error', 'Please enter session code');
       return;
     }
@@ -56,7 +106,7 @@ export default function MarkAttendanceTab() {
       const { data, error } = await supabase
         .from('sessions')
         .select('*')
-        .eq('id', sessionCode.trim())
+        .eq('id', code.trim())
         .eq('is_active', true)
         .single();
 
@@ -65,8 +115,8 @@ export default function MarkAttendanceTab() {
         return;
       }
 
-      // Check if session is still active
-      if (new Date(data.expires_at) < new Date()) {
+      // Check if session is still active (a paused session keeps its remaining time)
+      if (!data.paused_at && new Date(data.expires_at) < new Date()) {
         Alert.alert('Error', 'Session has expired');
         return;
       }
@@ -87,7 +137,7 @@ export default function MarkAttendanceTab() {
     }
 
     // Check if student is in faculty list
-    const isInList = CircleUtils.isStudentInList(
+    const isInList = RosterUtils.isStudentInList(
       user.registration_number,
       currentSession.student_list
     );
@@ -100,74 +150,127 @@ export default function MarkAttendanceTab() {
     setIsLoading(true);
     try {
       // Get student's pinpoint location
-      const locationData = await LocationService.getHighAccuracyLocation();
-      
-      const studentRadius = locationData.coords.accuracy + 1; // accuracy + 1 meter
-      
-      // Calculate distance from session
-      const distance = CircleUtils.getDistanceInMeters(
-        currentSession.session_latitude,
-        currentSession.session_longitude,
-        locationData.coords.latitude,
-        locationData.coords.longitude
-      );
-
-      // Calculate coverage percentage
-      const coveragePercentage = CircleUtils.calculateCircleOverlap(
-        currentSession.session_latitude,
-        currentSession.session_longitude,
-        currentSession.session_radius,
-        locationData.coords.latitude,
-        locationData.coords.longitude,
-        studentRadius
-      );
-
-      // Determine status based on coverage
-      const status = CircleUtils.determineAttendanceStatus(coveragePercentage);
-
-      // Insert attendance record
-      const { error } = await supabase
-        .from('attendance')
-        .insert({
-          session_id: currentSession.id,
-          student_name: user.name,
-          student_registration: user.registration_number,
-          student_latitude: locationData.coords.latitude,
-          student_longitude: locationData.coords.longitude,
-          student_accuracy: locationData.coords.accuracy,
-          student_radius: studentRadius,
-          distance_from_session: distance,
-          coverage_percentage: coveragePercentage,
-          status: status,
-          wifi_ssid: locationData.wifiSSID || 'iBUS@MUJ',
-        });
-
-      if (error) {
-        if (error.code === '23505') { // Unique constraint violation
-          Alert.alert('Error', 'You have already marked attendance for this session');
-        } else {
-          throw error;
-        }
+      const locationData = await LocationService.getHighAccuracyLocation({
+        onProgress: setSamplingProgress,
+      });
+
+      const policy = PolicyUtils.resolve(currentSession.policy);
+      if (!LocationService.validateLocationForAttendance(locationData, policy.max_accuracy)) {
+        Alert.alert(
+          'Location Not Accurate Enough',
+          `Your accuracy is ${locationData.coords.accuracy.toFixed(1)}m but this session requires ${policy.max_accuracy}m or better. Move closer to a window or wait a moment and try again.`
+        );
+        return;
+      }
+
+      // Scan the rotating code last so the token is fresh when submitted
+      if (currentSession.qr_required) {
+        setPendingLocation(locationData);
+        setScannerPurpose('mark');
         return;
       }
 
-      setAttendanceMarked(true);
-      Alert.alert(
-        'Attendance Marked!',
-        `Status: ${status.toUpperCase()}\nCoverage: ${coveragePercentage.toFixed(1)}%\nDistance: ${distance.toFixed(1)}m`
-      );
+      await submitAttendance(currentSession, locationData, null);
+    } catch (error) {
+      console.error('Attendance marking error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to mark attendance');
+    } finally {
+      setIsLoading(false);
+      setSamplingProgress(null);
+    }
+  };
+
+  const submitAttendance = async (
+    session: Session,
+    locationData: LocationData,
+    qrToken: string | null
+  ) => {
+    const deviceId = await DeviceService.getDeviceId();
+
+    // Distance, coverage and status are verified and recorded server-side
+    const { data: record, error } = await supabase.rpc('mark_attendance', {
+      p_session_code: session.id,
+      p_latitude: locationData.coords.latitude,
+      p_longitude: locationData.coords.longitude,
+      p_accuracy: locationData.coords.accuracy,
+      p_wifi_ssid: locationData.network.ssid,
+      p_qr_token: qrToken,
+      p_wifi_bssid: locationData.network.bssid,
+      p_connection_type: locationData.network.connectionType,
+      p_wifi_bypassed: locationData.network.bypassed,
+      p_spoof_signals: locationData.spoofSignals,
+      p_fix_timestamp: new Date(locationData.timestamp).toISOString(),
+      p_device_id: deviceId,
+      p_device_label: DeviceService.getDeviceLabel(),
+    });
+
+    if (error) {
+      if (error.code === '23505' && error.message.includes('idx_attendance_session_device')) {
+        Alert.alert('Error', 'This device has already been used to mark attendance for another student in this session');
+      } else if (error.code === '23505') { // Unique constraint violation
+        Alert.alert('Error', 'You have already marked attendance for this session');
+      } else {
+        throw new Error(error.message);
+      }
+      return;
+    }
+
+    const attendance = record as Attendance;
+
+    setAttendanceMarked(true);
+    Alert.alert(
+      'Attendance Marked!',
+      `Status: ${attendance.status.toUpperCase()}\nCoverage: ${(attendance.coverage_percentage ?? 0).toFixed(1)}%\nDistance: ${(attendance.distance_from_session ?? 0).toFixed(1)}m`,
+      attendance.status === 'proxy'
+        ? [
+            { text: 'OK' },
+            { text: 'Appeal', onPress: () => openAppeals(attendance.id) },
+          ]
+        : undefined
+    );
+  };
+
+  const handleQRScanned = async (payload: AttendanceQRPayload) => {
+    const purpose = scannerPurpose;
+    setScannerPurpose(null);
+
+    if (purpose === 'find') {
+      setSessionCode(payload.sessionId);
+      await findSession(payload.sessionId);
+      return;
+    }
+
+    if (!currentSession || !pendingLocation) {
+      return;
+    }
+
+    if (payload.sessionId !== currentSession.id) {
+      Alert.alert('Error', 'This QR code belongs to a different session');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await submitAttendance(currentSession, pendingLocation, payload.token);
     } catch (error) {
       console.error('Attendance marking error:', error);
       Alert.alert('Error', error instanceof Error ? error.message : 'Failed to mark attendance');
     } finally {
+      setPendingLocation(null);
       setIsLoading(false);
     }
   };
 
+  const openAppeals = (recordId: string | null = null) => {
+    setAppealRecordId(recordId);
+    setShowAppeals(true);
+  };
+
   const resetForm = () => {
     setSessionCode('');
     setCurrentSession(null);
     setAttendanceMarked(false);
+    setPendingLocation(null);
   };
 
   if (!user) {
@@ -184,6 +287,22 @@ export default function MarkAttendanceTab() {
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <QRScannerModal
+        visible={scannerPurpose !== null}
+        title={scannerPurpose === 'mark' ? 'Scan to Confirm Presence' : 'Scan Session QR Code'}
+        onClose={() => {
+          setScannerPurpose(null);
+          setPendingLocation(null);
+        }}
+        onScanned={handleQRScanned}
+      />
+      <StudentAppealsModal
+        visible={showAppeals}
+        user={user}
+        initialRecordId={appealRecordId}
+        onClose={() => setShowAppeals(false)}
+      />
+
       <View style={styles.header}>
         <MaterialIcons name="how-to-reg" size={40} color="#3B82F6" />
         <Text style={styles.title}>Mark Attendance</Text>
@@ -200,6 +319,10 @@ export default function MarkAttendanceTab() {
           <Text style={styles.infoLabel}>Registration:</Text>
           <Text style={styles.infoValue}>{user.registration_number}</Text>
         </View>
+        <TouchableOpacity style={styles.appealsButton} onPress={() => openAppeals()}>
+          <MaterialIcons name="gavel" size={20} color="#3B82F6" />
+          <Text style={styles.appealsButtonText}>My Appeals</Text>
+        </TouchableOpacity>
       </View>
 
       {!currentSession ? (
@@ -216,7 +339,7 @@ export default function MarkAttendanceTab() {
           />
           <TouchableOpacity
             style={[styles.findButton, !sessionCode.trim() && styles.disabledButton]}
-            onPress={findSession}
+            onPress={() => findSession()}
             disabled={isLoading || !sessionCode.trim()}
           >
             {isLoading ? (
@@ -228,6 +351,14 @@ export default function MarkAttendanceTab() {
               </>
             )}
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.scanButton}
+            onPress={() => setScannerPurpose('find')}
+            disabled={isLoading}
+          >
+            <MaterialIcons name="qr-code-scanner" size={20} color="#3B82F6" />
+            <Text style={styles.scanButtonText}>Scan QR Code</Text>
+          </TouchableOpacity>
         </View>
       ) : (
         <>
@@ -247,10 +378,30 @@ export default function MarkAttendanceTab() {
                 {new Date(currentSession.expires_at).toLocaleTimeString()}
               </Text>
             </View>
+            <View style={styles.sessionInfo}>
+              <Text style={styles.sessionLabel}>Time left:</Text>
+              <Text style={[styles.sessionValue, SessionUtils.isPaused(currentSession) && styles.pausedValue]}>
+                {SessionUtils.isPaused(currentSession)
+                  ? `Paused (${SessionUtils.formatTime(secondsLeft)})`
+                  : SessionUtils.formatTime(secondsLeft)}
+              </Text>
+            </View>
             <View style={styles.sessionInfo}>
               <Text style={styles.sessionLabel}>Students:</Text>
               <Text style={styles.sessionValue}>{currentSession.student_list.length}</Text>
             </View>
+            <View style={styles.sessionInfo}>
+              <Text style={styles.sessionLabel}>Required accuracy:</Text>
+              <Text style={styles.sessionValue}>
+                {PolicyUtils.resolve(currentSession.policy).max_accuracy}m or better
+              </Text>
+            </View>
+            {currentSession.qr_required && (
+              <View style={styles.sessionInfo}>
+                <Text style={styles.sessionLabel}>Verification:</Text>
+                <Text style={styles.sessionValue}>Location + QR scan</Text>
+              </View>
+            )}
           </View>
 
           {!attendanceMarked ? (
@@ -258,11 +409,12 @@ export default function MarkAttendanceTab() {
               <Text style={styles.cardTitle}>Mark Your Attendance</Text>
               <Text style={styles.instructions}>
                 Make sure you are within the session location. Your location will be verified automatically.
+                {currentSession.qr_required && ' You will then be asked to scan the QR code on display.'}
               </Text>
               <TouchableOpacity
-                style={styles.markButton}
+                style={[styles.markButton, SessionUtils.isPaused(currentSession) && styles.disabledButton]}
                 onPress={markAttendance}
-                disabled={isLoading}
+                disabled={isLoading || SessionUtils.isPaused(currentSession)}
               >
                 {isLoading ? (
                   <ActivityIndicator color="#FFFFFF" />
@@ -273,6 +425,7 @@ export default function MarkAttendanceTab() {
                   </>
                 )}
               </TouchableOpacity>
+              {samplingProgress && <SamplingIndicator progress={samplingProgress} />}
             </View>
           ) : (
             <View style={styles.successCard}>
@@ -351,6 +504,22 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     marginBottom: 15,
   },
+  appealsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    marginTop: 10,
+  },
+  appealsButtonText: {
+    color: '#3B82F6',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
   infoRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -395,6 +564,22 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#9CA3AF',
   },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 15,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    marginTop: 10,
+  },
+  scanButtonText: {
+    color: '#3B82F6',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
   sessionCard: {
     backgroundColor: '#EEF2FF',
     borderRadius: 12,
@@ -426,6 +611,9 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     fontWeight: '600',
   },
+  pausedValue: {
+    color: '#F59E0B',
+  },
   instructions: {
     fontSize: 14,
     color: '#6B7280',
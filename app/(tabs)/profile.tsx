@@ -8,6 +8,7 @@ import {
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { supabase, User } from '@/lib/supabase';
+import StudentDevicesCard from '@/components/StudentDevicesCard';
 
 export default function ProfileTab() {
   const [user, setUser] = useState<User | null>(null);
@@ -76,7 +77,7 @@ export default function ProfileTab() {
           <Text style={styles.infoLabel}>Role:</Text>
           <View style={styles.roleBadge}>
             <MaterialIcons 
-              name={user.role === 'faculty' ? 'person' : 'school'} 
+              name={user.role === 'admin' ? 'admin-panel-settings' : user.role === 'faculty' ? 'person' : 'school'} 
               size={16} 
               color="#3B82F6" 
             />
@@ -84,6 +85,13 @@ export default function ProfileTab() {
           </View>
         </View>
 
+        {user.role === 'faculty' && user.approval_status !== 'approved' && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Approval:</Text>
+            <Text style={styles.infoValue}>{user.approval_status.toUpperCase()}</Text>
+          </View>
+        )}
+
         <View style={styles.infoRow}>
           <Text style={styles.infoLabel}>Member Since:</Text>
           <Text style={styles.infoValue}>
@@ -91,6 +99,13 @@ export default function ProfileTab() {
           </Text>
         </View>
       </View>
+
+      {user.role === 'student' && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Registered Devices</Text>
+          <StudentDevicesCard studentId={user.id} />
+        </View>
+      )}
     </ScrollView>
   );
 }
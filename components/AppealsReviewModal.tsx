@@ -0,0 +1,385 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+  ScrollView,
+  Image,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Course, AppealWithAttendance } from '@/lib/supabase';
+import { CourseService } from '@/services/CourseService';
+import { AppealService } from '@/services/AppealService';
+import { StatusUtils } from '@/utils/StatusUtils';
+
+interface AppealsReviewModalProps {
+  visible: boolean;
+  course: Course;
+  onClose: () => void;
+}
+
+type AppealFilter = 'pending' | 'resolved';
+
+export default function AppealsReviewModal({ visible, course, onClose }: AppealsReviewModalProps) {
+  const [appeals, setAppeals] = useState<AppealWithAttendance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [filter, setFilter] = useState<AppealFilter>('pending');
+  const [responses, setResponses] = useState<Record<string, string>>({});
+  const [evidenceUrls, setEvidenceUrls] = useState<Record<string, string>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadAppeals = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const sessions = await CourseService.fetchCourseSessions(course.id);
+      setAppeals(await AppealService.fetchAppealsForSessions(sessions.map(s => s.id)));
+    } catch (error) {
+      console.error('Appeals load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load appeals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [course.id]);
+
+  useEffect(() => {
+    if (visible) {
+      setFilter('pending');
+      setResponses({});
+      setEvidenceUrls({});
+      loadAppeals();
+    }
+  }, [visible, loadAppeals]);
+
+  const showEvidence = async (appeal: AppealWithAttendance) => {
+    if (!appeal.evidence_path) return;
+
+    try {
+      const url = await AppealService.getEvidenceUrl(appeal.evidence_path);
+      setEvidenceUrls(prev => ({ ...prev, [appeal.id]: url }));
+    } catch (error) {
+      console.error('Evidence load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load evidence');
+    }
+  };
+
+  const resolveAppeal = async (appeal: AppealWithAttendance, accept: boolean) => {
+    const response = responses[appeal.id] ?? '';
+    if (!accept && !response.trim()) {
+      Alert.alert('Error', 'Please give the student a reason for rejecting the appeal.');
+      return;
+    }
+
+    setResolvingId(appeal.id);
+    try {
+      await AppealService.resolveAppeal(appeal.id, accept, response);
+      await loadAppeals();
+    } catch (error) {
+      console.error('Appeal resolve error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to resolve appeal');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const visibleAppeals = appeals.filter(appeal =>
+    filter === 'pending' ? appeal.status === 'pending' : appeal.status !== 'pending'
+  );
+  const pendingCount = appeals.filter(appeal => appeal.status === 'pending').length;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Appeals</Text>
+          <Text style={styles.subtitle}>{course.code} - {course.name}</Text>
+        </View>
+
+        <View style={styles.filterRow}>
+          {(['pending', 'resolved'] as AppealFilter[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.filterChip, filter === option && styles.filterChipActive]}
+              onPress={() => setFilter(option)}
+            >
+              <Text style={[styles.filterText, filter === option && styles.filterTextActive]}>
+                {option === 'pending' ? `Pending (${pendingCount})` : 'History'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+        ) : visibleAppeals.length === 0 ? (
+          <Text style={styles.emptyText}>
+            {filter === 'pending' ? 'No pending appeals.' : 'No resolved appeals yet.'}
+          </Text>
+        ) : (
+          visibleAppeals.map(appeal => {
+            const computed = appeal.attendance.status;
+            const effective = StatusUtils.getEffectiveStatus(appeal.attendance);
+            return (
+              <View key={appeal.id} style={styles.card}>
+                <View style={styles.appealHeader}>
+                  <View style={styles.studentInfo}>
+                    <Text style={styles.studentName}>{appeal.attendance.student_name}</Text>
+                    <Text style={styles.studentReg}>{appeal.attendance.student_registration}</Text>
+                  </View>
+                  <Text style={[styles.appealStatus, { color: StatusUtils.getAppealStatusColor(appeal.status) }]}>
+                    {appeal.status.toUpperCase()}
+                  </Text>
+                </View>
+
+                <Text style={styles.detailText}>
+                  Session {appeal.session_id} · {new Date(appeal.attendance.created_at).toLocaleString()}
+                </Text>
+                <Text style={styles.detailText}>
+                  Recorded {computed.toUpperCase()}
+                  {effective !== computed ? ` (now ${effective.toUpperCase()})` : ''}
+                  {appeal.attendance.coverage_percentage !== null
+                    ? ` · Coverage ${appeal.attendance.coverage_percentage.toFixed(1)}%`
+                    : ''}
+                  {' · '}Requests {appeal.requested_status.toUpperCase()}
+                </Text>
+                <Text style={styles.reasonText}>{appeal.reason}</Text>
+
+                {appeal.evidence_path && (
+                  evidenceUrls[appeal.id] ? (
+                    <Image source={{ uri: evidenceUrls[appeal.id] }} style={styles.evidenceImage} resizeMode="contain" />
+                  ) : (
+                    <TouchableOpacity style={styles.evidenceButton} onPress={() => showEvidence(appeal)}>
+                      <MaterialIcons name="image" size={18} color="#3B82F6" />
+                      <Text style={styles.evidenceButtonText}>View Photo Evidence</Text>
+                    </TouchableOpacity>
+                  )
+                )}
+
+                {appeal.status === 'pending' ? (
+                  <>
+                    <TextInput
+                      style={styles.responseInput}
+                      placeholder="Response to student (required to reject)"
+                      value={responses[appeal.id] ?? ''}
+                      onChangeText={(value) => setResponses(prev => ({ ...prev, [appeal.id]: value }))}
+                      multiline
+                      editable={resolvingId === null}
+                    />
+                    <View style={styles.actionRow}>
+                      <TouchableOpacity
+                        style={[styles.rejectButton, resolvingId !== null && styles.disabledButton]}
+                        onPress={() => resolveAppeal(appeal, false)}
+                        disabled={resolvingId !== null}
+                      >
+                        <Text style={styles.actionButtonText}>Reject</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.acceptButton, resolvingId !== null && styles.disabledButton]}
+                        onPress={() => resolveAppeal(appeal, true)}
+                        disabled={resolvingId !== null}
+                      >
+                        {resolvingId === appeal.id ? (
+                          <ActivityIndicator color="#FFFFFF" />
+                        ) : (
+                          <Text style={styles.actionButtonText}>Accept</Text>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                ) : (
+                  <>
+                    {appeal.faculty_response && (
+                      <Text style={styles.responseText}>Response: {appeal.faculty_response}</Text>
+                    )}
+                    {appeal.resolved_at && (
+                      <Text style={styles.detailText}>Resolved {new Date(appeal.resolved_at).toLocaleString()}</Text>
+                    )}
+                  </>
+                )}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    paddingTop: 40,
+    marginBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 0,
+    padding: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  filterChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    alignItems: 'center',
+  },
+  filterChipActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  filterTextActive: {
+    color: '#FFFFFF',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  appealHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  studentInfo: {
+    flex: 1,
+  },
+  studentName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  studentReg: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  appealStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  reasonText: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 10,
+  },
+  evidenceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  evidenceButtonText: {
+    color: '#3B82F6',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  evidenceImage: {
+    width: '100%',
+    height: 220,
+    borderRadius: 8,
+    marginTop: 10,
+    backgroundColor: '#F3F4F6',
+  },
+  responseInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginTop: 15,
+    marginBottom: 10,
+  },
+  responseText: {
+    fontSize: 14,
+    color: '#3B82F6',
+    marginTop: 10,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rejectButton: {
+    flex: 1,
+    backgroundColor: '#EF4444',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  acceptButton: {
+    flex: 1,
+    backgroundColor: '#10B981',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+});
@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Attendance, AttendanceStatus } from '@/lib/supabase';
+import { StatusUtils } from '@/utils/StatusUtils';
+
+interface AttendanceOverrideModalProps {
+  visible: boolean;
+  studentName: string;
+  registrationNumber: string;
+  record?: Attendance;
+  onClose: () => void;
+  onSubmit: (status: AttendanceStatus | null, reason: string) => Promise<void>;
+}
+
+const STATUSES: AttendanceStatus[] = ['present', 'proxy', 'absent', 'excused'];
+
+export default function AttendanceOverrideModal({
+  visible,
+  studentName,
+  registrationNumber,
+  record,
+  onClose,
+  onSubmit,
+}: AttendanceOverrideModalProps) {
+  const [status, setStatus] = useState<AttendanceStatus>('present');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setStatus(record?.override_status ?? 'present');
+      setReason(record?.override_reason ?? '');
+    }
+  }, [visible, record?.override_status, record?.override_reason]);
+
+  const save = async (nextStatus: AttendanceStatus | null) => {
+    if (nextStatus && !reason.trim()) {
+      Alert.alert('Error', 'Please enter a reason for the override.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(nextStatus, reason);
+      onClose();
+    } catch (error) {
+      console.error('Override error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to override attendance');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Override Status</Text>
+          <Text style={styles.subtitle}>{studentName} · {registrationNumber}</Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Computed Verdict</Text>
+          {record ? (
+            <>
+              <Text style={[styles.verdictText, { color: StatusUtils.getStatusColor(record.status) }]}>
+                {record.status.toUpperCase()}
+              </Text>
+              {record.coverage_percentage !== null && record.distance_from_session !== null && (
+                <Text style={styles.detailText}>
+                  Coverage: {record.coverage_percentage.toFixed(1)}% | Distance: {record.distance_from_session.toFixed(1)}m
+                  {record.student_accuracy !== null ? ` | Accuracy: ±${record.student_accuracy.toFixed(1)}m` : ''}
+                </Text>
+              )}
+              {record.override_status && record.overridden_at && (
+                <Text style={styles.detailText}>
+                  Currently overridden to {record.override_status.toUpperCase()} on{' '}
+                  {new Date(record.overridden_at).toLocaleString()}
+                </Text>
+              )}
+            </>
+          ) : (
+            <Text style={styles.detailText}>No submission from this student yet.</Text>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>New Status</Text>
+          <View style={styles.statusRow}>
+            {STATUSES.map(option => {
+              const isActive = option === status;
+              const color = StatusUtils.getStatusColor(option);
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.statusChip, { borderColor: color }, isActive && { backgroundColor: color }]}
+                  onPress={() => setStatus(option)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.statusChipText, { color: isActive ? '#FFFFFF' : color }]}>
+                    {option.toUpperCase()}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TextInput
+            style={styles.reasonInput}
+            placeholder="Reason (required), e.g. seen in class, GPS drift indoors"
+            value={reason}
+            onChangeText={setReason}
+            multiline
+            editable={!isSaving}
+          />
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && styles.disabledButton]}
+            onPress={() => save(status)}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Override</Text>
+            )}
+          </TouchableOpacity>
+
+          {record?.override_status && (
+            <TouchableOpacity style={styles.clearButton} onPress={() => save(null)} disabled={isSaving}>
+              <Text style={styles.clearButtonText}>Remove Override</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    paddingTop: 40,
+    marginBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 0,
+    padding: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 15,
+  },
+  verdictText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 15,
+  },
+  statusChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  statusChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: 15,
+  },
+  saveButton: {
+    backgroundColor: '#3B82F6',
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+  clearButton: {
+    padding: 12,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  clearButtonText: {
+    color: '#EF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
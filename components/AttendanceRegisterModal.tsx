@@ -0,0 +1,373 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Attendance, Course } from '@/lib/supabase';
+import { CourseService } from '@/services/CourseService';
+import { ExportService, ExportFormat } from '@/services/ExportService';
+import { RegisterUtils, Register } from '@/utils/RegisterUtils';
+import { StatusUtils } from '@/utils/StatusUtils';
+import ExportButtons from '@/components/ExportButtons';
+
+interface AttendanceRegisterModalProps {
+  visible: boolean;
+  course: Course;
+  onClose: () => void;
+  onCourseUpdated: (course: Course) => void;
+}
+
+export default function AttendanceRegisterModal({
+  visible,
+  course,
+  onClose,
+  onCourseUpdated,
+}: AttendanceRegisterModalProps) {
+  const [register, setRegister] = useState<Register | null>(null);
+  const [records, setRecords] = useState<Attendance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [thresholdInput, setThresholdInput] = useState(course.attendance_threshold.toString());
+  const [isSavingThreshold, setIsSavingThreshold] = useState(false);
+
+  const loadRegister = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [roster, sessions] = await Promise.all([
+        CourseService.fetchRoster(course.id),
+        CourseService.fetchCourseSessions(course.id),
+      ]);
+      const attendance = await CourseService.fetchAttendanceForSessions(sessions.map(s => s.id));
+      setRecords(attendance);
+      setRegister(RegisterUtils.buildRegister(roster, sessions, attendance, course.attendance_threshold));
+    } catch (error) {
+      console.error('Register load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load register');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [course.id, course.attendance_threshold]);
+
+  // Also reruns when a saved threshold comes back through onCourseUpdated
+  useEffect(() => {
+    if (visible) {
+      setThresholdInput(course.attendance_threshold.toString());
+      loadRegister();
+    }
+  }, [visible, course.attendance_threshold, loadRegister]);
+
+  const saveThreshold = async () => {
+    const threshold = parseFloat(thresholdInput);
+    if (isNaN(threshold) || threshold < 0 || threshold > 100) {
+      Alert.alert('Error', 'Threshold must be a number between 0 and 100');
+      return;
+    }
+
+    setIsSavingThreshold(true);
+    try {
+      const updated = await CourseService.updateThreshold(course.id, threshold);
+      onCourseUpdated(updated);
+    } catch (error) {
+      console.error('Threshold update error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update threshold');
+    } finally {
+      setIsSavingThreshold(false);
+    }
+  };
+
+  const exportRegister = async (format: ExportFormat) => {
+    if (!register) return;
+    await ExportService.exportRegister(course, register, records, format);
+  };
+
+  const formatSessionDate = (createdAt: string): string => {
+    const date = new Date(createdAt);
+    return `${date.getDate()}/${date.getMonth() + 1}`;
+  };
+
+  const shortfallCount = register ? register.rows.filter(row => row.belowThreshold).length : 0;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Attendance Register</Text>
+          <Text style={styles.subtitle}>{course.code} - {course.name}</Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Shortfall Threshold</Text>
+          <View style={styles.thresholdRow}>
+            <TextInput
+              style={styles.thresholdInput}
+              value={thresholdInput}
+              onChangeText={setThresholdInput}
+              keyboardType="numeric"
+              maxLength={5}
+            />
+            <Text style={styles.percentSign}>%</Text>
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={saveThreshold}
+              disabled={isSavingThreshold}
+            >
+              {isSavingThreshold ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          {register && (
+            <Text style={shortfallCount > 0 ? styles.shortfallText : styles.okText}>
+              {shortfallCount > 0
+                ? `${shortfallCount} student${shortfallCount === 1 ? '' : 's'} below ${course.attendance_threshold}%`
+                : `All students at or above ${course.attendance_threshold}%`}
+            </Text>
+          )}
+        </View>
+
+        {isLoading || !register ? (
+          <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+        ) : register.rows.length === 0 ? (
+          <Text style={styles.emptyText}>No students enrolled in this course.</Text>
+        ) : (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>
+              {register.sessions.length} Session{register.sessions.length === 1 ? '' : 's'}
+            </Text>
+            <ScrollView horizontal>
+              <View>
+                <View style={styles.gridRow}>
+                  <Text style={[styles.nameCell, styles.headerCell]}>Student</Text>
+                  {register.sessions.map(session => (
+                    <Text key={session.id} style={[styles.statusCell, styles.headerCell]}>
+                      {formatSessionDate(session.created_at)}
+                    </Text>
+                  ))}
+                  <Text style={[styles.percentCell, styles.headerCell]}>%</Text>
+                </View>
+
+                {register.rows.map(row => (
+                  <View
+                    key={row.registration_number}
+                    style={[styles.gridRow, row.belowThreshold && styles.shortfallRow]}
+                  >
+                    <View style={styles.nameCell}>
+                      <Text style={styles.studentName} numberOfLines={1}>{row.name}</Text>
+                      <Text style={styles.studentReg}>{row.registration_number}</Text>
+                    </View>
+                    {row.cells.map((status, index) => (
+                      <View key={register.sessions[index].id} style={styles.statusCell}>
+                        <Text
+                          style={[
+                            styles.statusLetter,
+                            {
+                              color: StatusUtils.getStatusColor(status),
+                              backgroundColor: StatusUtils.getStatusColor(status) + '20',
+                            },
+                          ]}
+                        >
+                          {StatusUtils.getStatusShortLabel(status)}
+                        </Text>
+                      </View>
+                    ))}
+                    <Text
+                      style={[
+                        styles.percentCell,
+                        styles.percentValue,
+                        row.belowThreshold && styles.shortfallValue,
+                      ]}
+                    >
+                      {row.percentage.toFixed(0)}%
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </ScrollView>
+            <Text style={styles.legend}>P present · X proxy · A absent · E excused · - pending</Text>
+            <View style={styles.exportRow}>
+              <ExportButtons onExport={exportRegister} />
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    paddingTop: 40,
+    marginBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 0,
+    padding: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 15,
+  },
+  thresholdRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  thresholdInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    width: 80,
+    textAlign: 'center',
+  },
+  percentSign: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginLeft: 6,
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: '#3B82F6',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  shortfallText: {
+    fontSize: 14,
+    color: '#EF4444',
+    fontWeight: '500',
+  },
+  okText: {
+    fontSize: 14,
+    color: '#10B981',
+    fontWeight: '500',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  gridRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  shortfallRow: {
+    backgroundColor: '#FEF2F2',
+  },
+  headerCell: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  nameCell: {
+    width: 140,
+    paddingRight: 8,
+    textAlign: 'left',
+  },
+  studentName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  studentReg: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  statusCell: {
+    width: 44,
+    alignItems: 'center',
+  },
+  statusLetter: {
+    fontSize: 12,
+    fontWeight: '600',
+    width: 28,
+    paddingVertical: 4,
+    borderRadius: 6,
+    textAlign: 'center',
+    overflow: 'hidden',
+  },
+  percentCell: {
+    width: 56,
+    textAlign: 'right',
+  },
+  percentValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  shortfallValue: {
+    color: '#EF4444',
+  },
+  exportRow: {
+    marginTop: 15,
+  },
+  legend: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 10,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { CampusNetwork } from '@/lib/supabase';
+import { CampusNetworkService } from '@/services/CampusNetworkService';
+
+export default function CampusNetworkManager() {
+  const [networks, setNetworks] = useState<CampusNetwork[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [ssid, setSsid] = useState('');
+  const [bssid, setBssid] = useState('');
+  const [label, setLabel] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadNetworks();
+  }, []);
+
+  const loadNetworks = async () => {
+    setIsLoading(true);
+    try {
+      setNetworks(await CampusNetworkService.fetchAllNetworks());
+    } catch (error) {
+      console.error('Campus network load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load campus networks');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addNetwork = async () => {
+    setIsSaving(true);
+    try {
+      const network = await CampusNetworkService.createNetwork(ssid, bssid, label);
+      setNetworks(prev => [...prev, network].sort((a, b) => a.ssid.localeCompare(b.ssid)));
+      setSsid('');
+      setBssid('');
+      setLabel('');
+    } catch (error) {
+      console.error('Campus network creation error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add campus network');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleNetwork = async (network: CampusNetwork, isActive: boolean) => {
+    try {
+      const updated = await CampusNetworkService.setNetworkActive(network.id, isActive);
+      setNetworks(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+    } catch (error) {
+      console.error('Campus network update error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update campus network');
+    }
+  };
+
+  const confirmDelete = (network: CampusNetwork) => {
+    Alert.alert(
+      'Remove Network',
+      `Devices on ${network.ssid} will no longer count as on campus.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await CampusNetworkService.deleteNetwork(network.id);
+              setNetworks(prev => prev.filter(item => item.id !== network.id));
+            } catch (error) {
+              console.error('Campus network delete error:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove campus network');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View>
+      {isLoading ? (
+        <ActivityIndicator color="#3B82F6" />
+      ) : networks.length === 0 ? (
+        <Text style={styles.emptyText}>No campus networks. Students will not be asked to join WiFi.</Text>
+      ) : (
+        networks.map(network => (
+          <View key={network.id} style={styles.networkRow}>
+            <MaterialIcons name="wifi" size={20} color={network.is_active ? '#3B82F6' : '#9CA3AF'} />
+            <View style={styles.networkInfo}>
+              <Text style={styles.networkSsid}>{network.ssid}</Text>
+              <Text style={styles.networkDetails}>
+                {[network.label, network.bssid ?? 'Any access point'].filter(Boolean).join(' · ')}
+              </Text>
+            </View>
+            <Switch
+              value={network.is_active}
+              onValueChange={value => toggleNetwork(network, value)}
+              trackColor={{ false: '#D1D5DB', true: '#93C5FD' }}
+              thumbColor={network.is_active ? '#3B82F6' : '#F3F4F6'}
+            />
+            <TouchableOpacity style={styles.deleteButton} onPress={() => confirmDelete(network)}>
+              <MaterialIcons name="delete" size={20} color="#EF4444" />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      <View style={styles.form}>
+        <TextInput
+          style={styles.input}
+          placeholder="SSID (network name)"
+          value={ssid}
+          onChangeText={setSsid}
+          autoCapitalize="none"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="BSSID (optional, e.g. a4:2b:b0:12:34:56)"
+          value={bssid}
+          onChangeText={setBssid}
+          autoCapitalize="none"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Building or area (optional)"
+          value={label}
+          onChangeText={setLabel}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !ssid.trim() && styles.disabledButton]}
+          onPress={addNetwork}
+          disabled={isSaving || !ssid.trim()}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <>
+              <MaterialIcons name="add" size={20} color="#FFFFFF" />
+              <Text style={styles.addButtonText}>Add Network</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  networkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  networkInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  networkSsid: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  networkDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  form: {
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3B82F6',
+    padding: 12,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+});
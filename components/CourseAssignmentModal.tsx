@@ -0,0 +1,305 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Course, Department, User } from '@/lib/supabase';
+import { AdminService } from '@/services/AdminService';
+
+interface CourseAssignmentModalProps {
+  visible: boolean;
+  // Null creates a new course
+  course: Course | null;
+  faculty: User[];
+  departments: Department[];
+  onClose: () => void;
+  onSaved: (course: Course) => void;
+}
+
+export default function CourseAssignmentModal({
+  visible,
+  course,
+  faculty,
+  departments,
+  onClose,
+  onSaved,
+}: CourseAssignmentModalProps) {
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [facultyId, setFacultyId] = useState<string | null>(null);
+  const [departmentId, setDepartmentId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setCode(course?.code ?? '');
+      setName(course?.name ?? '');
+      setFacultyId(course?.faculty_id ?? null);
+      setDepartmentId(course?.department_id ?? null);
+    }
+  }, [visible, course]);
+
+  const canSave = !!facultyId && (course !== null || (!!code.trim() && !!name.trim()));
+
+  const save = async () => {
+    if (!facultyId) return;
+
+    setIsSaving(true);
+    try {
+      const assignment = { faculty_id: facultyId, department_id: departmentId };
+      const saved = course
+        ? await AdminService.assignCourse(course.id, assignment)
+        : await AdminService.createCourse(code, name, assignment);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Course assignment error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save course');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{course ? course.code : 'New Course'}</Text>
+          <Text style={styles.subtitle}>
+            {course ? course.name : 'Create a course and assign it to a faculty member'}
+          </Text>
+        </View>
+
+        {!course && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Course</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Course code (e.g. CS1201)"
+              value={code}
+              onChangeText={setCode}
+              autoCapitalize="characters"
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Course name"
+              value={name}
+              onChangeText={setName}
+            />
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Department</Text>
+          <View style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, departmentId === null && styles.chipActive]}
+              onPress={() => setDepartmentId(null)}
+            >
+              <Text style={[styles.chipText, departmentId === null && styles.chipTextActive]}>None</Text>
+            </TouchableOpacity>
+            {departments.map(department => (
+              <TouchableOpacity
+                key={department.id}
+                style={[styles.chip, departmentId === department.id && styles.chipActive]}
+                onPress={() => setDepartmentId(department.id)}
+              >
+                <Text style={[styles.chipText, departmentId === department.id && styles.chipTextActive]}>
+                  {department.code}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Faculty</Text>
+          {faculty.length === 0 ? (
+            <Text style={styles.emptyText}>No approved faculty yet.</Text>
+          ) : (
+            faculty.map(member => {
+              const isSelected = member.id === facultyId;
+              return (
+                <TouchableOpacity
+                  key={member.id}
+                  style={[styles.facultyRow, isSelected && styles.facultyRowActive]}
+                  onPress={() => setFacultyId(member.id)}
+                >
+                  <MaterialIcons
+                    name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                    size={20}
+                    color={isSelected ? '#3B82F6' : '#9CA3AF'}
+                  />
+                  <View style={styles.facultyInfo}>
+                    <Text style={styles.facultyName}>{member.name}</Text>
+                    <Text style={styles.facultyEmail}>{member.email}</Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, !canSave && styles.disabledButton]}
+          onPress={save}
+          disabled={isSaving || !canSave}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <>
+              <MaterialIcons name="save" size={20} color="#FFFFFF" />
+              <Text style={styles.saveButtonText}>{course ? 'Save Assignment' : 'Create Course'}</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    paddingTop: 40,
+    marginBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 0,
+    padding: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  facultyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  facultyRowActive: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#EEF2FF',
+  },
+  facultyInfo: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  facultyName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  facultyEmail: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3B82F6',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+});
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Course } from '@/lib/supabase';
+
+interface CoursePickerProps {
+  courses: Course[];
+  selectedCourseId: string | null;
+  disabled?: boolean;
+  onSelect: (course: Course) => void;
+  onCreate: (code: string, name: string) => Promise<void>;
+}
+
+export default function CoursePicker({
+  courses,
+  selectedCourseId,
+  disabled = false,
+  onSelect,
+  onCreate,
+}: CoursePickerProps) {
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await onCreate(code, name);
+      setCode('');
+      setName('');
+      setShowCreateForm(false);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <View>
+      {courses.length === 0 && !showCreateForm && (
+        <Text style={styles.emptyText}>No courses yet. Create one to get started.</Text>
+      )}
+
+      {courses.map((course) => {
+        const isSelected = course.id === selectedCourseId;
+        return (
+          <TouchableOpacity
+            key={course.id}
+            style={[styles.courseRow, isSelected && styles.courseRowActive]}
+            onPress={() => onSelect(course)}
+            disabled={disabled}
+          >
+            <MaterialIcons
+              name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+              size={20}
+              color={isSelected ? '#3B82F6' : '#9CA3AF'}
+            />
+            <View style={styles.courseInfo}>
+              <Text style={styles.courseCode}>{course.code}</Text>
+              <Text style={styles.courseName}>{course.name}</Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      {showCreateForm ? (
+        <View style={styles.createForm}>
+          <TextInput
+            style={styles.input}
+            placeholder="Course code (e.g. CS1201)"
+            value={code}
+            onChangeText={setCode}
+            autoCapitalize="characters"
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Course name"
+            value={name}
+            onChangeText={setName}
+          />
+          <View style={styles.formButtons}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setShowCreateForm(false)}
+              disabled={isCreating}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, (!code.trim() || !name.trim()) && styles.disabledButton]}
+              onPress={handleCreate}
+              disabled={isCreating || !code.trim() || !name.trim()}
+            >
+              {isCreating ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Create Course</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setShowCreateForm(true)}
+          disabled={disabled}
+        >
+          <MaterialIcons name="add" size={20} color="#3B82F6" />
+          <Text style={styles.addButtonText}>New Course</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  courseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  courseRowActive: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#EEF2FF',
+  },
+  courseInfo: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  courseCode: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  courseName: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  createForm: {
+    marginTop: 5,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#6B7280',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: '#3B82F6',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    borderStyle: 'dashed',
+    marginTop: 5,
+  },
+  addButtonText: {
+    color: '#3B82F6',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { ExportFormat } from '@/services/ExportService';
+
+interface ExportButtonsProps {
+  disabled?: boolean;
+  onExport: (format: ExportFormat) => Promise<void>;
+}
+
+const FORMATS: { format: ExportFormat; label: string; icon: keyof typeof MaterialIcons.glyphMap }[] = [
+  { format: 'xlsx', label: 'Excel', icon: 'grid-on' },
+  { format: 'csv', label: 'CSV', icon: 'description' },
+  { format: 'pdf', label: 'PDF', icon: 'picture-as-pdf' },
+];
+
+export default function ExportButtons({ disabled = false, onExport }: ExportButtonsProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await onExport(format);
+    } catch (error) {
+      console.error('Export error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export attendance');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <View style={styles.row}>
+      {FORMATS.map(({ format, label, icon }) => (
+        <TouchableOpacity
+          key={format}
+          style={[styles.button, (disabled || exporting !== null) && styles.disabledButton]}
+          onPress={() => handleExport(format)}
+          disabled={disabled || exporting !== null}
+        >
+          {exporting === format ? (
+            <ActivityIndicator color="#3B82F6" />
+          ) : (
+            <>
+              <MaterialIcons name={icon} size={18} color="#3B82F6" />
+              <Text style={styles.buttonText}>{label}</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+  },
+  buttonText: {
+    color: '#3B82F6',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Geofence } from '@/lib/supabase';
+import { GeofenceService } from '@/services/GeofenceService';
+import { GeometryUtils } from '@/utils/GeometryUtils';
+
+export default function GeofenceManager() {
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [building, setBuilding] = useState('');
+  const [floor, setFloor] = useState('');
+  const [corners, setCorners] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadGeofences();
+  }, []);
+
+  const loadGeofences = async () => {
+    setIsLoading(true);
+    try {
+      setGeofences(await GeofenceService.fetchAllGeofences());
+    } catch (error) {
+      console.error('Geofence load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load geofences');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addGeofence = async () => {
+    setIsSaving(true);
+    try {
+      const geofence = await GeofenceService.createGeofence(name, building, floor, corners);
+      setGeofences(prev => [...prev, geofence].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setBuilding('');
+      setFloor('');
+      setCorners('');
+    } catch (error) {
+      console.error('Geofence creation error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add geofence');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleGeofence = async (geofence: Geofence, isActive: boolean) => {
+    try {
+      const updated = await GeofenceService.setGeofenceActive(geofence.id, isActive);
+      setGeofences(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+    } catch (error) {
+      console.error('Geofence update error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update geofence');
+    }
+  };
+
+  const confirmDelete = (geofence: Geofence) => {
+    Alert.alert(
+      'Remove Geofence',
+      `Faculty will no longer be able to bind sessions to ${geofence.name}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await GeofenceService.deleteGeofence(geofence.id);
+              setGeofences(prev => prev.filter(item => item.id !== geofence.id));
+            } catch (error) {
+              console.error('Geofence delete error:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove geofence');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const canSave = name.trim() && corners.trim();
+
+  return (
+    <View>
+      {isLoading ? (
+        <ActivityIndicator color="#3B82F6" />
+      ) : geofences.length === 0 ? (
+        <Text style={styles.emptyText}>No geofences. Sessions use a circle around the faculty{"'"}s location.</Text>
+      ) : (
+        geofences.map(geofence => (
+          <View key={geofence.id} style={styles.geofenceRow}>
+            <MaterialIcons name="crop-square" size={20} color={geofence.is_active ? '#3B82F6' : '#9CA3AF'} />
+            <View style={styles.geofenceInfo}>
+              <Text style={styles.geofenceName}>{GeometryUtils.describeGeofence(geofence)}</Text>
+              <Text style={styles.geofenceDetails}>{geofence.polygon.length} corners</Text>
+            </View>
+            <Switch
+              value={geofence.is_active}
+              onValueChange={value => toggleGeofence(geofence, value)}
+              trackColor={{ false: '#D1D5DB', true: '#93C5FD' }}
+              thumbColor={geofence.is_active ? '#3B82F6' : '#F3F4F6'}
+            />
+            <TouchableOpacity style={styles.deleteButton} onPress={() => confirmDelete(geofence)}>
+              <MaterialIcons name="delete" size={20} color="#EF4444" />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      <View style={styles.form}>
+        <TextInput
+          style={styles.input}
+          placeholder="Room name (e.g. Lecture Theatre 2)"
+          value={name}
+          onChangeText={setName}
+        />
+        <View style={styles.inlineInputs}>
+          <TextInput
+            style={[styles.input, styles.buildingInput]}
+            placeholder="Building (optional)"
+            value={building}
+            onChangeText={setBuilding}
+          />
+          <TextInput
+            style={[styles.input, styles.floorInput]}
+            placeholder="Floor"
+            value={floor}
+            onChangeText={setFloor}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+        <TextInput
+          style={[styles.input, styles.cornersInput]}
+          placeholder={'Corners, one "latitude, longitude" per line\n26.843512, 75.565321'}
+          value={corners}
+          onChangeText={setCorners}
+          autoCapitalize="none"
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !canSave && styles.disabledButton]}
+          onPress={addGeofence}
+          disabled={isSaving || !canSave}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <>
+              <MaterialIcons name="add" size={20} color="#FFFFFF" />
+              <Text style={styles.addButtonText}>Add Geofence</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  geofenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  geofenceInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  geofenceName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  geofenceDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  form: {
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  inlineInputs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  buildingInput: {
+    flex: 1,
+  },
+  floorInput: {
+    width: 80,
+  },
+  cornersInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3B82F6',
+    padding: 12,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+});
@@ -0,0 +1,101 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Geofence } from '@/lib/supabase';
+import { GeometryUtils } from '@/utils/GeometryUtils';
+
+interface GeofencePickerProps {
+  geofences: Geofence[];
+  selectedIds: string[];
+  disabled?: boolean;
+  onChange: (selectedIds: string[]) => void;
+}
+
+export default function GeofencePicker({
+  geofences,
+  selectedIds,
+  disabled = false,
+  onChange,
+}: GeofencePickerProps) {
+  const toggle = (geofenceId: string) => {
+    onChange(
+      selectedIds.includes(geofenceId)
+        ? selectedIds.filter(id => id !== geofenceId)
+        : [...selectedIds, geofenceId]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Rooms</Text>
+      <Text style={styles.hint}>
+        {selectedIds.length === 0
+          ? 'No room selected: students are checked against a circle around your location'
+          : 'Students are checked against the selected rooms instead of your location'}
+      </Text>
+      <View style={styles.chipRow}>
+        {geofences.map(geofence => {
+          const selected = selectedIds.includes(geofence.id);
+          return (
+            <TouchableOpacity
+              key={geofence.id}
+              style={[styles.chip, selected && styles.chipActive]}
+              onPress={() => toggle(geofence.id)}
+              disabled={disabled}
+            >
+              {selected && <MaterialIcons name="check" size={14} color="#FFFFFF" />}
+              <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                {GeometryUtils.describeGeofence(geofence)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+});
@@ -78,7 +78,12 @@ export default function LoginModal({ visible, onClose, onSuccess }: LoginModalPr
 
       if (profileError) throw profileError;
 
-      Alert.alert('Success', 'Account created successfully!');
+      Alert.alert(
+        'Success',
+        role === 'faculty'
+          ? 'Account created. Faculty accounts must be approved by an administrator before you can run sessions.'
+          : 'Account created successfully!'
+      );
       onSuccess();
       resetForm();
     } catch (error) {
@@ -225,6 +230,11 @@ export default function LoginModal({ visible, onClose, onSuccess }: LoginModalPr
                     </Text>
                   </TouchableOpacity>
                 </View>
+                {role === 'faculty' && (
+                  <Text style={styles.roleHint}>
+                    Faculty accounts need administrator approval before they can run sessions.
+                  </Text>
+                )}
               </View>
             </>
           )}
@@ -340,6 +350,11 @@ const styles = StyleSheet.create({
   roleButtonTextActive: {
     color: '#FFFFFF',
   },
+  roleHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
   authButton: {
     backgroundColor: '#10B981',
     flexDirection: 'row',
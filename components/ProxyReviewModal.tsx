@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import MapView, { Circle, Marker, Polygon } from 'react-native-maps';
+import { Attendance, AttendanceStatus, Session, Geofence } from '@/lib/supabase';
+import { CourseService } from '@/services/CourseService';
+import { AttendanceService } from '@/services/AttendanceService';
+import { GeofenceService } from '@/services/GeofenceService';
+import { StatusUtils } from '@/utils/StatusUtils';
+import { NetworkUtils } from '@/utils/NetworkUtils';
+import { GeometryUtils } from '@/utils/GeometryUtils';
+import { SpoofUtils } from '@/utils/SpoofUtils';
+import AttendanceOverrideModal from '@/components/AttendanceOverrideModal';
+
+interface ProxyReviewModalProps {
+  visible: boolean;
+  session: Session;
+  onClose: () => void;
+  onOverridden: (record: Attendance) => void;
+}
+
+export default function ProxyReviewModal({
+  visible,
+  session,
+  onClose,
+  onOverridden,
+}: ProxyReviewModalProps) {
+  const [records, setRecords] = useState<Attendance[]>([]);
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selected, setSelected] = useState<Attendance | null>(null);
+  const [editing, setEditing] = useState<Attendance | null>(null);
+
+  const loadRecords = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [data, bound] = await Promise.all([
+        CourseService.fetchAttendanceForSessions([session.id]),
+        GeofenceService.fetchSessionGeofences(session.id),
+      ]);
+      setGeofences(bound);
+      // Queue is driven by the computed verdict so reviewed rows stay visible with their override
+      setRecords(data.filter(record => record.status === 'proxy'));
+    } catch (error) {
+      console.error('Review queue load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load review queue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [session.id]);
+
+  useEffect(() => {
+    if (visible) {
+      setSelected(null);
+      loadRecords();
+    }
+  }, [visible, loadRecords]);
+
+  const submitOverride = async (record: Attendance, status: AttendanceStatus | null, reason: string) => {
+    const updated = await AttendanceService.overrideAttendance(
+      session.id,
+      record.student_registration,
+      status,
+      reason
+    );
+    setRecords(prev => prev.map(existing => (existing.id === updated.id ? updated : existing)));
+    setSelected(updated);
+    onOverridden(updated);
+  };
+
+  // Re-run the session's verdict rules to show why a record was flagged
+  const flagReasons = (record: Attendance): string[] => {
+    if (
+      record.coverage_percentage === null ||
+      record.distance_from_session === null ||
+      record.student_accuracy === null
+    ) {
+      return [];
+    }
+    return GeometryUtils.determineVerdict(
+      {
+        coverage: record.coverage_percentage,
+        distance: record.distance_from_session,
+        accuracy: record.student_accuracy,
+        networkMatched: record.network_matched,
+      },
+      GeometryUtils.sessionVerdictRules(session, geofences.length > 0)
+    ).reasons;
+  };
+
+  const pendingCount = records.filter(record => !StatusUtils.isOverridden(record)).length;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Review Queue</Text>
+          <Text style={styles.subtitle}>
+            Session {session.id} · {pendingCount} of {records.length} proxy verdicts unreviewed
+          </Text>
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+        ) : records.length === 0 ? (
+          <Text style={styles.emptyText}>No proxy verdicts in this session.</Text>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <MapView
+                style={styles.map}
+                region={{
+                  latitude: selected?.student_latitude ?? session.session_latitude,
+                  longitude: selected?.student_longitude ?? session.session_longitude,
+                  latitudeDelta: 0.001,
+                  longitudeDelta: 0.001,
+                }}
+              >
+                {geofences.length > 0 ? (
+                  geofences.map(geofence => (
+                    <Polygon
+                      key={geofence.id}
+                      coordinates={geofence.polygon}
+                      fillColor="rgba(59, 130, 246, 0.2)"
+                      strokeColor="#3B82F6"
+                      strokeWidth={2}
+                    />
+                  ))
+                ) : (
+                  <Circle
+                    center={{ latitude: session.session_latitude, longitude: session.session_longitude }}
+                    radius={session.session_radius}
+                    fillColor="rgba(59, 130, 246, 0.2)"
+                    strokeColor="#3B82F6"
+                    strokeWidth={2}
+                  />
+                )}
+                {records.map(record => {
+                  if (
+                    record.student_latitude === null ||
+                    record.student_longitude === null ||
+                    record.student_radius === null
+                  ) {
+                    return null;
+                  }
+                  const color = StatusUtils.getStatusColor(StatusUtils.getEffectiveStatus(record));
+                  const isSelected = selected?.id === record.id;
+                  return (
+                    <React.Fragment key={record.id}>
+                      <Circle
+                        center={{ latitude: record.student_latitude, longitude: record.student_longitude }}
+                        radius={record.student_radius}
+                        fillColor={color + (isSelected ? '55' : '22')}
+                        strokeColor={color}
+                        strokeWidth={isSelected ? 2 : 1}
+                      />
+                      <Marker
+                        coordinate={{ latitude: record.student_latitude, longitude: record.student_longitude }}
+                        title={record.student_name}
+                        description={record.student_registration}
+                        pinColor={color}
+                        onPress={() => setSelected(record)}
+                      />
+                    </React.Fragment>
+                  );
+                })}
+              </MapView>
+            </View>
+
+            <View style={styles.card}>
+              {records.map(record => {
+                const effective = StatusUtils.getEffectiveStatus(record);
+                return (
+                  <TouchableOpacity
+                    key={record.id}
+                    style={[styles.recordRow, selected?.id === record.id && styles.recordRowSelected]}
+                    onPress={() => setSelected(record)}
+                  >
+                    <View style={styles.recordInfo}>
+                      <Text style={styles.studentName}>{record.student_name}</Text>
+                      <Text style={styles.studentReg}>{record.student_registration}</Text>
+                      {record.coverage_percentage !== null && record.distance_from_session !== null && (
+                        <Text style={styles.recordDetails}>
+                          Coverage: {record.coverage_percentage.toFixed(1)}% | Distance: {record.distance_from_session.toFixed(1)}m
+                        </Text>
+                      )}
+                      {flagReasons(record).map(reason => (
+                        <Text key={reason} style={styles.flagReason}>{reason}</Text>
+                      ))}
+                      {record.spoof_risk_score != null && record.spoof_risk_score > 0 && (
+                        <Text style={[styles.flagReason, { color: SpoofUtils.getRiskColor(record.spoof_risk_score) }]}>
+                          Spoof risk {record.spoof_risk_score}: {SpoofUtils.describeSignals(record.spoof_signals).join(', ')}
+                        </Text>
+                      )}
+                      {NetworkUtils.describeConnection(record) && (
+                        <Text style={styles.recordDetails}>Network: {NetworkUtils.describeConnection(record)}</Text>
+                      )}
+                      {record.override_reason && (
+                        <Text style={styles.overrideReason}>Override: {record.override_reason}</Text>
+                      )}
+                    </View>
+                    <View style={styles.recordActions}>
+                      <View style={[styles.statusBadge, { backgroundColor: StatusUtils.getStatusColor(effective) + '20' }]}>
+                        <Text style={[styles.statusText, { color: StatusUtils.getStatusColor(effective) }]}>
+                          {effective.toUpperCase()}
+                        </Text>
+                      </View>
+                      <TouchableOpacity style={styles.reviewButton} onPress={() => setEditing(record)}>
+                        <Text style={styles.reviewButtonText}>
+                          {StatusUtils.isOverridden(record) ? 'Edit' : 'Review'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      <AttendanceOverrideModal
+        visible={editing !== null}
+        studentName={editing?.student_name ?? ''}
+        registrationNumber={editing?.student_registration ?? ''}
+        record={editing ?? undefined}
+        onClose={() => setEditing(null)}
+        onSubmit={(status, reason) => (editing ? submitOverride(editing, status, reason) : Promise.resolve())}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    paddingTop: 40,
+    marginBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 0,
+    padding: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  map: {
+    height: 260,
+    borderRadius: 8,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  recordRowSelected: {
+    backgroundColor: '#EEF2FF',
+  },
+  recordInfo: {
+    flex: 1,
+  },
+  studentName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  studentReg: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  recordDetails: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  flagReason: {
+    fontSize: 12,
+    color: '#F59E0B',
+    marginTop: 2,
+  },
+  overrideReason: {
+    fontSize: 12,
+    color: '#3B82F6',
+    marginTop: 2,
+  },
+  recordActions: {
+    alignItems: 'flex-end',
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  reviewButton: {
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+  },
+  reviewButtonText: {
+    color: '#3B82F6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Modal,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { MaterialIcons } from '@expo/vector-icons';
+import { QRUtils, AttendanceQRPayload } from '@/utils/QRUtils';
+
+interface QRScannerModalProps {
+  visible: boolean;
+  title?: string;
+  onClose: () => void;
+  onScanned: (payload: AttendanceQRPayload) => void;
+}
+
+export default function QRScannerModal({
+  visible,
+  title = 'Scan Session QR Code',
+  onClose,
+  onScanned,
+}: QRScannerModalProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [scanned, setScanned] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setScanned(false);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (visible && permission && !permission.granted && permission.canAskAgain) {
+      requestPermission();
+    }
+  }, [visible, permission, requestPermission]);
+
+  const handleBarcodeScanned = ({ data }: { data: string }) => {
+    if (scanned) return;
+
+    const payload = QRUtils.parsePayload(data);
+    if (!payload) {
+      setScanned(true);
+      Alert.alert('Invalid QR Code', 'This is not a session QR code.', [
+        { text: 'Scan Again', onPress: () => setScanned(false) },
+      ]);
+      return;
+    }
+
+    setScanned(true);
+    onScanned(payload);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{title}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        {permission?.granted ? (
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={scanned ? undefined : handleBarcodeScanned}
+          />
+        ) : (
+          <View style={styles.permissionContainer}>
+            <MaterialIcons name="photo-camera" size={48} color="#9CA3AF" />
+            <Text style={styles.permissionText}>
+              Camera access is needed to scan the QR code shown by your faculty.
+            </Text>
+            <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+              <Text style={styles.permissionButtonText}>Allow Camera</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <Text style={styles.hint}>Point your camera at the code on the classroom display</Text>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#111827',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 60,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  camera: {
+    flex: 1,
+  },
+  permissionContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  permissionText: {
+    fontSize: 16,
+    color: '#D1D5DB',
+    textAlign: 'center',
+    marginTop: 15,
+    marginBottom: 20,
+  },
+  permissionButton: {
+    backgroundColor: '#3B82F6',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  permissionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    padding: 20,
+    paddingBottom: 40,
+  },
+});
@@ -0,0 +1,472 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as XLSX from 'xlsx';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Course } from '@/lib/supabase';
+import { CourseService, RosterEntry } from '@/services/CourseService';
+import { RosterUtils, RosterTable, ColumnMapping, RosterField, EMPTY_ROSTER_TABLE } from '@/utils/RosterUtils';
+
+interface RosterImportModalProps {
+  visible: boolean;
+  course: Course;
+  existingRoster: RosterEntry[];
+  onClose: () => void;
+  onImported: (roster: RosterEntry[]) => void;
+}
+
+type ImportStep = 'pick' | 'map' | 'preview';
+
+const ACCEPTED_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'text/csv',
+  'text/comma-separated-values',
+];
+
+const ACCEPTED_EXTENSIONS = ['xlsx', 'xls', 'csv'];
+
+export default function RosterImportModal({
+  visible,
+  course,
+  existingRoster,
+  onClose,
+  onImported,
+}: RosterImportModalProps) {
+  const [step, setStep] = useState<ImportStep>('pick');
+  const [fileName, setFileName] = useState('');
+  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [table, setTable] = useState<RosterTable>(EMPTY_ROSTER_TABLE);
+  const [mapping, setMapping] = useState<ColumnMapping>({ name: null, registration_number: null });
+  const [isReading, setIsReading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setStep('pick');
+      setFileName('');
+      setWorkbook(null);
+      setSheetName('');
+      setTable(EMPTY_ROSTER_TABLE);
+      setMapping({ name: null, registration_number: null });
+    }
+  }, [visible]);
+
+  const pickFile = async () => {
+    setIsReading(true);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ACCEPTED_TYPES,
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      const extension = asset.name.split('.').pop()?.toLowerCase() ?? '';
+      if (!ACCEPTED_EXTENSIONS.includes(extension)) {
+        Alert.alert('Unsupported File', 'Please choose an .xlsx, .xls or .csv file.');
+        return;
+      }
+
+      const fileContent = await FileSystem.readAsStringAsync(asset.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      const parsed = RosterUtils.readWorkbook(fileContent);
+      if (parsed.SheetNames.length === 0) {
+        Alert.alert('Error', 'The file does not contain any sheets.');
+        return;
+      }
+
+      setFileName(asset.name);
+      setWorkbook(parsed);
+      selectSheet(parsed, parsed.SheetNames[0]);
+      setStep('map');
+    } catch (error) {
+      console.error('Roster file error:', error);
+      Alert.alert('Error', 'Failed to read the file. Please try again.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const selectSheet = (source: XLSX.WorkBook, name: string) => {
+    const nextTable = RosterUtils.readTable(source, name);
+    setSheetName(name);
+    setTable(nextTable);
+    setMapping(RosterUtils.guessMapping(nextTable.headers));
+  };
+
+  const updateMapping = (field: RosterField, column: number) => {
+    setMapping(prev => ({ ...prev, [field]: prev[field] === column ? null : column }));
+  };
+
+  const parsedRows = step === 'preview' ? RosterUtils.parseRows(table, mapping) : [];
+  const validRows = parsedRows.filter(row => row.issues.length === 0);
+  const invalidRows = parsedRows.filter(row => row.issues.length > 0);
+  const incoming: RosterEntry[] = validRows.map(row => ({
+    name: row.name,
+    registration_number: row.registration_number,
+  }));
+  const diff = step === 'preview' ? RosterUtils.diffRoster(existingRoster, incoming) : null;
+
+  const isMappingComplete = mapping.name !== null && mapping.registration_number !== null;
+
+  const commitImport = async () => {
+    setIsSaving(true);
+    try {
+      await CourseService.replaceRoster(course.id, incoming);
+      onImported(incoming);
+      Alert.alert('Success', `${incoming.length} students saved to ${course.code}.`);
+    } catch (error) {
+      console.error('Roster import error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save roster');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderPick = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Choose a File</Text>
+      <Text style={styles.hintText}>
+        Excel (.xlsx, .xls) or CSV with one student per row and a header row.
+      </Text>
+      <TouchableOpacity style={styles.primaryButton} onPress={pickFile} disabled={isReading}>
+        {isReading ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <>
+            <MaterialIcons name="upload-file" size={24} color="#FFFFFF" />
+            <Text style={styles.primaryButtonText}>Select File</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderMap = () => (
+    <>
+      {workbook && workbook.SheetNames.length > 1 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Sheet</Text>
+          <View style={styles.chipRow}>
+            {workbook.SheetNames.map(name => (
+              <TouchableOpacity
+                key={name}
+                style={[styles.chip, name === sheetName && styles.chipActive]}
+                onPress={() => selectSheet(workbook, name)}
+              >
+                <Text style={[styles.chipText, name === sheetName && styles.chipTextActive]}>{name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Map Columns</Text>
+        {table.headers.length === 0 ? (
+          <Text style={styles.hintText}>This sheet is empty.</Text>
+        ) : (
+          RosterUtils.FIELDS.map(field => (
+            <View key={field.key} style={styles.mappingGroup}>
+              <Text style={styles.mappingLabel}>{field.label}</Text>
+              <View style={styles.chipRow}>
+                {table.headers.map((header, index) => {
+                  const isActive = mapping[field.key] === index;
+                  return (
+                    <TouchableOpacity
+                      key={`${field.key}-${index}`}
+                      style={[styles.chip, isActive && styles.chipActive]}
+                      onPress={() => updateMapping(field.key, index)}
+                    >
+                      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                        {header || `Column ${index + 1}`}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))
+        )}
+        <Text style={styles.hintText}>{table.rows.filter(row => row.some(cell => cell !== '')).length} data rows in {sheetName}</Text>
+        <TouchableOpacity
+          style={[styles.primaryButton, !isMappingComplete && styles.disabledButton]}
+          onPress={() => setStep('preview')}
+          disabled={!isMappingComplete}
+        >
+          <Text style={styles.primaryButtonText}>Preview Import</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderPreview = () => (
+    <>
+      {diff && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Changes to {course.code}</Text>
+          <Text style={styles.addedText}>+ {diff.added.length} new students</Text>
+          <Text style={styles.removedText}>− {diff.removed.length} students removed</Text>
+          <Text style={styles.renamedText}>~ {diff.renamed.length} names updated</Text>
+          <Text style={styles.hintText}>{diff.unchanged} unchanged</Text>
+
+          {diff.removed.slice(0, 10).map(entry => (
+            <Text key={`removed-${entry.registration_number}`} style={styles.diffLine}>
+              − {entry.registration_number} {entry.name}
+            </Text>
+          ))}
+          {diff.renamed.slice(0, 10).map(entry => (
+            <Text key={`renamed-${entry.registration_number}`} style={styles.diffLine}>
+              ~ {entry.registration_number}: {entry.from} → {entry.to}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {invalidRows.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{invalidRows.length} Rows Will Be Skipped</Text>
+          {invalidRows.map(row => (
+            <View key={row.rowNumber} style={styles.issueRow}>
+              <Text style={styles.issueRowNumber}>Row {row.rowNumber}</Text>
+              <View style={styles.issueInfo}>
+                <Text style={styles.issueStudent} numberOfLines={1}>
+                  {row.name || '—'} · {row.registration_number || '—'}
+                </Text>
+                <Text style={styles.issueText}>
+                  {row.issues.map(issue => RosterUtils.describeIssue(issue)).join(', ')}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.actionRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('map')}>
+          <Text style={styles.secondaryButtonText}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, styles.actionButton, incoming.length === 0 && styles.disabledButton]}
+          onPress={commitImport}
+          disabled={incoming.length === 0 || isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Import {incoming.length} Students</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Import Roster</Text>
+          <Text style={styles.subtitle}>
+            {fileName ? `${course.code} · ${fileName}` : `${course.code} - ${course.name}`}
+          </Text>
+        </View>
+
+        {step === 'pick' && renderPick()}
+        {step === 'map' && renderMap()}
+        {step === 'preview' && renderPreview()}
+      </ScrollView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    paddingTop: 40,
+    marginBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 0,
+    padding: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 15,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#3B82F6',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 15,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    padding: 15,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  secondaryButtonText: {
+    color: '#3B82F6',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  mappingGroup: {
+    marginBottom: 15,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  addedText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#10B981',
+    marginBottom: 4,
+  },
+  removedText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#EF4444',
+    marginBottom: 4,
+  },
+  renamedText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#F59E0B',
+    marginBottom: 4,
+  },
+  diffLine: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  issueRowNumber: {
+    width: 64,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  issueInfo: {
+    flex: 1,
+  },
+  issueStudent: {
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  issueText: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 2,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    marginBottom: 20,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
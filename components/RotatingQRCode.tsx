@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { supabase } from '@/lib/supabase';
+import { QRUtils } from '@/utils/QRUtils';
+
+interface RotatingQRCodeProps {
+  sessionId: string;
+  size?: number;
+}
+
+interface QRTokenState {
+  token: string;
+  // Local time of the next fetch; the device clock is never compared with the server's
+  refreshAt: number;
+}
+
+export default function RotatingQRCode({ sessionId, size = 200 }: RotatingQRCodeProps) {
+  const [qrToken, setQrToken] = useState<QRTokenState | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let refreshTimeout: ReturnType<typeof setTimeout>;
+
+    const refreshToken = async () => {
+      const { data, error: tokenError } = await supabase
+        .rpc('current_session_qr_token', { p_session_id: sessionId })
+        .single();
+
+      if (cancelled) return;
+
+      if (tokenError || !data) {
+        console.error('QR token error:', tokenError);
+        setError('Unable to load QR code');
+        // Retry shortly; the session may still be starting up
+        refreshTimeout = setTimeout(refreshToken, 3000);
+        return;
+      }
+
+      const { token, rotation_seconds } = data as { token: string; rotation_seconds: number };
+      // Fetching twice per rotation keeps the code current even if the phone clock is off;
+      // the server also accepts the previous step's token
+      const refreshMs = (rotation_seconds * 1000) / 2;
+      setError(null);
+      setQrToken({ token, refreshAt: Date.now() + refreshMs });
+
+      refreshTimeout = setTimeout(refreshToken, refreshMs);
+    };
+
+    refreshToken();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(refreshTimeout);
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!qrToken) return;
+
+    const update = () => {
+      setSecondsLeft(Math.max(0, Math.ceil((qrToken.refreshAt - Date.now()) / 1000)));
+    };
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [qrToken]);
+
+  return (
+    <View style={styles.container}>
+      {qrToken ? (
+        <>
+          <View style={styles.qrWrapper}>
+            <QRCode value={QRUtils.buildPayload(sessionId, qrToken.token)} size={size} />
+          </View>
+          <Text style={styles.rotationText}>Refreshes in {secondsLeft}s</Text>
+        </>
+      ) : error ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : (
+        <ActivityIndicator color="#3B82F6" />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  qrWrapper: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+  },
+  rotationText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#EF4444',
+  },
+});
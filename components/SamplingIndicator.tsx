@@ -0,0 +1,47 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { SamplingProgress } from '@/services/LocationSampler';
+
+interface SamplingIndicatorProps {
+  progress: SamplingProgress;
+}
+
+export default function SamplingIndicator({ progress }: SamplingIndicatorProps) {
+  const fraction = Math.min(1, progress.elapsedMs / progress.windowMs);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${Math.round(fraction * 100)}%` }]} />
+      </View>
+      <Text style={styles.text}>
+        {progress.readingCount === 0
+          ? 'Waiting for GPS…'
+          : `Sampling location · ${progress.readingCount} reading${progress.readingCount === 1 ? '' : 's'}` +
+            (progress.accuracy !== null ? ` · ±${progress.accuracy.toFixed(1)}m` : '')}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+    backgroundColor: '#3B82F6',
+  },
+  text: {
+    fontSize: 12,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+
+interface SessionControlsProps {
+  isPaused: boolean;
+  disabled?: boolean;
+  onExtend: (minutes: number) => void;
+  onPause: () => void;
+  onResume: () => void;
+}
+
+const EXTEND_OPTIONS = [2, 5, 10];
+
+export default function SessionControls({
+  isPaused,
+  disabled = false,
+  onExtend,
+  onPause,
+  onResume,
+}: SessionControlsProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.extendRow}>
+        {EXTEND_OPTIONS.map(minutes => (
+          <TouchableOpacity
+            key={minutes}
+            style={[styles.extendButton, disabled && styles.disabledButton]}
+            onPress={() => onExtend(minutes)}
+            disabled={disabled}
+          >
+            <Text style={styles.extendButtonText}>+{minutes} min</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TouchableOpacity
+        style={[styles.pauseButton, isPaused && styles.resumeButton, disabled && styles.disabledButton]}
+        onPress={isPaused ? onResume : onPause}
+        disabled={disabled}
+      >
+        <MaterialIcons name={isPaused ? 'play-arrow' : 'pause'} size={20} color="#FFFFFF" />
+        <Text style={styles.pauseButtonText}>{isPaused ? 'Resume Countdown' : 'Pause Countdown'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  extendRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 10,
+  },
+  extendButton: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  extendButtonText: {
+    color: '#3B82F6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  pauseButton: {
+    backgroundColor: '#F59E0B',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+  },
+  resumeButton: {
+    backgroundColor: '#10B981',
+  },
+  pauseButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
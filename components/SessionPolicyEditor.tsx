@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SessionPolicy } from '@/lib/supabase';
+import { PolicyUtils } from '@/utils/PolicyUtils';
+
+interface SessionPolicyEditorProps {
+  policy: SessionPolicy;
+  disabled?: boolean;
+  isSavingDefault?: boolean;
+  onChange: (policy: SessionPolicy) => void;
+  onSaveDefault?: () => void;
+}
+
+const FIELDS: { key: keyof SessionPolicy; label: string; unit: string }[] = [
+  { key: 'duration_minutes', label: 'Duration', unit: 'min' },
+  { key: 'radius_padding', label: 'Session radius padding', unit: 'm' },
+  { key: 'student_radius_padding', label: 'Student radius padding', unit: 'm' },
+  { key: 'coverage_threshold', label: 'Coverage threshold', unit: '%' },
+  { key: 'max_accuracy', label: 'Max acceptable accuracy', unit: 'm' },
+];
+
+type PolicyDrafts = Record<keyof SessionPolicy, string>;
+
+// Plain decimals only; parseFloat would read "12abc" as 12. Anything else becomes NaN and fails validation
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)$/;
+
+const parseDraft = (value: string): number =>
+  NUMBER_PATTERN.test(value.trim()) ? Number(value.trim()) : NaN;
+
+const fromDrafts = (drafts: PolicyDrafts): SessionPolicy => ({
+  duration_minutes: parseDraft(drafts.duration_minutes),
+  radius_padding: parseDraft(drafts.radius_padding),
+  student_radius_padding: parseDraft(drafts.student_radius_padding),
+  coverage_threshold: parseDraft(drafts.coverage_threshold),
+  max_accuracy: parseDraft(drafts.max_accuracy),
+});
+
+const toDrafts = (policy: SessionPolicy): PolicyDrafts => ({
+  duration_minutes: policy.duration_minutes.toString(),
+  radius_padding: policy.radius_padding.toString(),
+  student_radius_padding: policy.student_radius_padding.toString(),
+  coverage_threshold: policy.coverage_threshold.toString(),
+  max_accuracy: policy.max_accuracy.toString(),
+});
+
+export default function SessionPolicyEditor({
+  policy,
+  disabled = false,
+  isSavingDefault = false,
+  onChange,
+  onSaveDefault,
+}: SessionPolicyEditorProps) {
+  const [drafts, setDrafts] = useState(toDrafts(policy));
+
+  // Keep inputs in sync when the policy is replaced from outside (course switch, preset)
+  useEffect(() => {
+    setDrafts(prev => (PolicyUtils.isSamePolicy(fromDrafts(prev), policy) ? prev : toDrafts(policy)));
+  }, [policy]);
+
+  const updateField = (key: keyof SessionPolicy, value: string) => {
+    setDrafts(prev => ({ ...prev, [key]: value }));
+    onChange({ ...policy, [key]: parseDraft(value) });
+  };
+
+  const validationError = PolicyUtils.validate(policy);
+  const activePreset = PolicyUtils.PRESETS.find(preset => PolicyUtils.isSamePolicy(preset.policy, policy));
+
+  return (
+    <View>
+      <View style={styles.presetRow}>
+        {PolicyUtils.PRESETS.map(preset => {
+          const isActive = activePreset?.key === preset.key;
+          return (
+            <TouchableOpacity
+              key={preset.key}
+              style={[styles.presetChip, isActive && styles.presetChipActive]}
+              onPress={() => onChange(preset.policy)}
+              disabled={disabled}
+            >
+              <Text style={[styles.presetText, isActive && styles.presetTextActive]}>
+                {preset.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {FIELDS.map(field => (
+        <View key={field.key} style={styles.fieldRow}>
+          <Text style={styles.fieldLabel}>{field.label}</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={drafts[field.key]}
+            onChangeText={(value) => updateField(field.key, value)}
+            keyboardType="numeric"
+            editable={!disabled}
+            maxLength={5}
+          />
+          <Text style={styles.fieldUnit}>{field.unit}</Text>
+        </View>
+      ))}
+
+      {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+
+      {onSaveDefault && (
+        <TouchableOpacity
+          style={[styles.saveButton, (disabled || !!validationError) && styles.disabledButton]}
+          onPress={onSaveDefault}
+          disabled={disabled || !!validationError || isSavingDefault}
+        >
+          {isSavingDefault ? (
+            <ActivityIndicator color="#3B82F6" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save as Course Default</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  presetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+  },
+  presetChipActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  presetText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  presetTextActive: {
+    color: '#FFFFFF',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  fieldLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  fieldInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    width: 70,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  fieldUnit: {
+    width: 32,
+    fontSize: 14,
+    color: '#6B7280',
+    marginLeft: 6,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 6,
+  },
+  saveButton: {
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  saveButtonText: {
+    color: '#3B82F6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    borderColor: '#9CA3AF',
+  },
+});
@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { AuditEvent } from '@/lib/supabase';
+import { SessionService } from '@/services/SessionService';
+import { AuditUtils } from '@/utils/AuditUtils';
+
+interface SessionTimelineModalProps {
+  visible: boolean;
+  sessionId: string;
+  onClose: () => void;
+}
+
+export default function SessionTimelineModal({ visible, sessionId, onClose }: SessionTimelineModalProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEvents(await SessionService.fetchAuditEvents(sessionId));
+    } catch (error) {
+      console.error('Timeline load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load session timeline');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (visible) {
+      loadEvents();
+    }
+  }, [visible, loadEvents]);
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Session Timeline</Text>
+          <Text style={styles.subtitle}>Session {sessionId}</Text>
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+        ) : events.length === 0 ? (
+          <Text style={styles.emptyText}>No events recorded for this session.</Text>
+        ) : (
+          <View style={styles.card}>
+            {events.map((event, index) => {
+              const summary = AuditUtils.describe(event);
+              return (
+                <View key={event.id} style={styles.eventRow}>
+                  <View style={styles.markerColumn}>
+                    <View style={[styles.marker, { backgroundColor: summary.color }]}>
+                      <MaterialIcons name={summary.icon} size={14} color="#FFFFFF" />
+                    </View>
+                    {index < events.length - 1 && <View style={styles.connector} />}
+                  </View>
+                  <View style={styles.eventInfo}>
+                    <Text style={styles.eventTitle}>{summary.title}</Text>
+                    {summary.detail && <Text style={styles.eventDetail}>{summary.detail}</Text>}
+                    <Text style={styles.eventMeta}>
+                      {new Date(event.created_at).toLocaleTimeString()} · {event.actor_name ?? 'System'}
+                    </Text>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    paddingTop: 40,
+    marginBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 0,
+    padding: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  eventRow: {
+    flexDirection: 'row',
+  },
+  markerColumn: {
+    alignItems: 'center',
+    width: 28,
+    marginRight: 12,
+  },
+  marker: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  connector: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#E5E7EB',
+    marginVertical: 2,
+  },
+  eventInfo: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  eventTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  eventDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  eventMeta: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,491 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { MaterialIcons } from '@expo/vector-icons';
+import { User, Attendance, AppealWithAttendance } from '@/lib/supabase';
+import { AppealService, EvidenceFile } from '@/services/AppealService';
+import { StatusUtils } from '@/utils/StatusUtils';
+
+interface StudentAppealsModalProps {
+  visible: boolean;
+  user: User;
+  initialRecordId?: string | null;
+  onClose: () => void;
+}
+
+const REQUESTED_STATUSES: ('present' | 'excused')[] = ['present', 'excused'];
+
+export default function StudentAppealsModal({
+  visible,
+  user,
+  initialRecordId = null,
+  onClose,
+}: StudentAppealsModalProps) {
+  const [records, setRecords] = useState<Attendance[]>([]);
+  const [appeals, setAppeals] = useState<AppealWithAttendance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedRecord, setSelectedRecord] = useState<Attendance | null>(null);
+  const [reason, setReason] = useState('');
+  const [requestedStatus, setRequestedStatus] = useState<'present' | 'excused'>('present');
+  const [evidence, setEvidence] = useState<EvidenceFile | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const resetForm = useCallback(() => {
+    setSelectedRecord(null);
+    setReason('');
+    setRequestedStatus('present');
+    setEvidence(null);
+  }, []);
+
+  const loadAppeals = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [recordData, appealData] = await Promise.all([
+        AppealService.fetchAppealableRecords(user.id),
+        AppealService.fetchStudentAppeals(user.id),
+      ]);
+      setRecords(recordData);
+      setAppeals(appealData);
+      if (initialRecordId) {
+        setSelectedRecord(recordData.find(record => record.id === initialRecordId) ?? null);
+      }
+    } catch (error) {
+      console.error('Appeals load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load appeals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user.id, initialRecordId]);
+
+  useEffect(() => {
+    if (visible) {
+      resetForm();
+      loadAppeals();
+    }
+  }, [visible, resetForm, loadAppeals]);
+
+  const pickEvidence = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: 'image/*',
+      copyToCacheDirectory: true,
+    });
+
+    if (!result.canceled && result.assets[0]) {
+      const asset = result.assets[0];
+      setEvidence({ uri: asset.uri, name: asset.name, mimeType: asset.mimeType });
+    }
+  };
+
+  const submitAppeal = async () => {
+    if (!selectedRecord) return;
+
+    if (!reason.trim()) {
+      Alert.alert('Error', 'Please explain why this record is wrong.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const evidencePath = evidence ? await AppealService.uploadEvidence(user.id, evidence) : null;
+      await AppealService.fileAppeal(selectedRecord.id, reason, requestedStatus, evidencePath);
+      Alert.alert('Appeal Filed', 'Your faculty will review it shortly.');
+      resetForm();
+      await loadAppeals();
+    } catch (error) {
+      console.error('Appeal filing error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to file appeal');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const hasPendingAppeal = (record: Attendance) =>
+    appeals.some(appeal => appeal.attendance_id === record.id && appeal.status === 'pending');
+
+  const formatDate = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <MaterialIcons name="close" size={24} color="#6B7280" />
+          </TouchableOpacity>
+          <Text style={styles.title}>My Appeals</Text>
+          <Text style={styles.subtitle}>Contest a proxy or absent record</Text>
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+        ) : (
+          <>
+            {selectedRecord ? (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Appeal Session {selectedRecord.session_id}</Text>
+                <Text style={styles.detailText}>
+                  Recorded {StatusUtils.getEffectiveStatus(selectedRecord).toUpperCase()} on {formatDate(selectedRecord.created_at)}
+                </Text>
+
+                <Text style={styles.fieldLabel}>I should be marked</Text>
+                <View style={styles.chipRow}>
+                  {REQUESTED_STATUSES.map(option => {
+                    const isActive = option === requestedStatus;
+                    return (
+                      <TouchableOpacity
+                        key={option}
+                        style={[styles.chip, isActive && styles.chipActive]}
+                        onPress={() => setRequestedStatus(option)}
+                        disabled={isSubmitting}
+                      >
+                        <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                          {option.toUpperCase()}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <TextInput
+                  style={styles.reasonInput}
+                  placeholder="What happened? e.g. I was in the front row, GPS was off indoors"
+                  value={reason}
+                  onChangeText={setReason}
+                  multiline
+                  editable={!isSubmitting}
+                />
+
+                {evidence ? (
+                  <View style={styles.evidenceRow}>
+                    <MaterialIcons name="image" size={20} color="#3B82F6" />
+                    <Text style={styles.evidenceName} numberOfLines={1}>{evidence.name}</Text>
+                    <TouchableOpacity onPress={() => setEvidence(null)} disabled={isSubmitting}>
+                      <MaterialIcons name="close" size={20} color="#6B7280" />
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <TouchableOpacity style={styles.attachButton} onPress={pickEvidence} disabled={isSubmitting}>
+                    <MaterialIcons name="add-photo-alternate" size={20} color="#3B82F6" />
+                    <Text style={styles.attachButtonText}>Attach Photo (optional)</Text>
+                  </TouchableOpacity>
+                )}
+
+                <View style={styles.actionRow}>
+                  <TouchableOpacity style={styles.cancelButton} onPress={resetForm} disabled={isSubmitting}>
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.submitButton, isSubmitting && styles.disabledButton]}
+                    onPress={submitAppeal}
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting ? (
+                      <ActivityIndicator color="#FFFFFF" />
+                    ) : (
+                      <Text style={styles.submitButtonText}>Submit Appeal</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Records You Can Appeal</Text>
+                {records.length === 0 ? (
+                  <Text style={styles.emptyText}>No proxy or absent records.</Text>
+                ) : (
+                  records.map(record => {
+                    const status = StatusUtils.getEffectiveStatus(record);
+                    const pending = hasPendingAppeal(record);
+                    return (
+                      <View key={record.id} style={styles.recordRow}>
+                        <View style={styles.recordInfo}>
+                          <Text style={styles.recordTitle}>Session {record.session_id}</Text>
+                          <Text style={styles.detailText}>{formatDate(record.created_at)}</Text>
+                          <Text style={[styles.recordStatus, { color: StatusUtils.getStatusColor(status) }]}>
+                            {status.toUpperCase()}
+                          </Text>
+                        </View>
+                        <TouchableOpacity
+                          style={[styles.appealButton, pending && styles.appealButtonDisabled]}
+                          onPress={() => setSelectedRecord(record)}
+                          disabled={pending}
+                        >
+                          <Text style={[styles.appealButtonText, pending && styles.appealButtonTextDisabled]}>
+                            {pending ? 'Pending' : 'Appeal'}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    );
+                  })
+                )}
+              </View>
+            )}
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Appeal History</Text>
+              {appeals.length === 0 ? (
+                <Text style={styles.emptyText}>You have not filed any appeals.</Text>
+              ) : (
+                appeals.map(appeal => (
+                  <View key={appeal.id} style={styles.appealRow}>
+                    <View style={styles.appealHeader}>
+                      <Text style={styles.recordTitle}>Session {appeal.session_id}</Text>
+                      <Text style={[styles.appealStatus, { color: StatusUtils.getAppealStatusColor(appeal.status) }]}>
+                        {appeal.status.toUpperCase()}
+                      </Text>
+                    </View>
+                    <Text style={styles.detailText}>
+                      Requested {appeal.requested_status} · filed {formatDate(appeal.created_at)}
+                    </Text>
+                    <Text style={styles.appealReason}>{appeal.reason}</Text>
+                    {appeal.faculty_response && (
+                      <Text style={styles.facultyResponse}>Faculty: {appeal.faculty_response}</Text>
+                    )}
+                  </View>
+                ))
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  contentContainer: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    paddingTop: 40,
+    marginBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 0,
+    padding: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginTop: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 15,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginTop: 15,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 15,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: 15,
+  },
+  attachButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    borderStyle: 'dashed',
+    marginBottom: 15,
+  },
+  attachButtonText: {
+    color: '#3B82F6',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  evidenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EEF2FF',
+    marginBottom: 15,
+  },
+  evidenceName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1F2937',
+    marginHorizontal: 8,
+  },
+  actionRow: {
+    flexDirection: 'row',
+  },
+  cancelButton: {
+    padding: 15,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  cancelButtonText: {
+    color: '#3B82F6',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: '#3B82F6',
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  recordInfo: {
+    flex: 1,
+  },
+  recordTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  recordStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  appealButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+  },
+  appealButtonDisabled: {
+    backgroundColor: '#F3F4F6',
+  },
+  appealButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  appealButtonTextDisabled: {
+    color: '#6B7280',
+  },
+  appealRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  appealHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  appealStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  appealReason: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 6,
+  },
+  facultyResponse: {
+    fontSize: 14,
+    color: '#3B82F6',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { StudentDevice, DeviceResetRequest } from '@/lib/supabase';
+import { DeviceService } from '@/services/DeviceService';
+
+interface StudentDevicesCardProps {
+  studentId: string;
+}
+
+export default function StudentDevicesCard({ studentId }: StudentDevicesCardProps) {
+  const [devices, setDevices] = useState<StudentDevice[]>([]);
+  const [requests, setRequests] = useState<DeviceResetRequest[]>([]);
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadDevices = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [deviceData, requestData, deviceId] = await Promise.all([
+        DeviceService.fetchMyDevices(studentId),
+        DeviceService.fetchMyResetRequests(studentId),
+        DeviceService.getDeviceId(),
+      ]);
+      setDevices(deviceData);
+      setRequests(requestData);
+      setCurrentDeviceId(deviceId);
+    } catch (error) {
+      console.error('Device load error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load devices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [studentId]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const submitRequest = async () => {
+    setIsSubmitting(true);
+    try {
+      const request = await DeviceService.requestReset(reason);
+      setRequests(prev => [request, ...prev]);
+      setReason('');
+      Alert.alert('Request Sent', 'An administrator will review your device reset request.');
+    } catch (error) {
+      console.error('Device reset request error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to request device reset');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const pendingRequest = requests.find(request => request.status === 'pending');
+  const lastResolved = requests.find(request => request.status !== 'pending');
+
+  if (isLoading) {
+    return <ActivityIndicator color="#3B82F6" />;
+  }
+
+  return (
+    <View>
+      {devices.length === 0 ? (
+        <Text style={styles.emptyText}>
+          No devices yet. The phone you first mark attendance from will be registered to your account.
+        </Text>
+      ) : (
+        devices.map(device => (
+          <View key={device.id} style={styles.deviceRow}>
+            <MaterialIcons name="smartphone" size={20} color="#3B82F6" />
+            <View style={styles.deviceInfo}>
+              <Text style={styles.deviceLabel}>
+                {device.device_label ?? 'Unknown device'}
+                {device.device_id === currentDeviceId ? ' (this device)' : ''}
+              </Text>
+              <Text style={styles.deviceDetails}>
+                Last used {new Date(device.last_seen_at).toLocaleDateString()}
+              </Text>
+            </View>
+          </View>
+        ))
+      )}
+
+      {pendingRequest ? (
+        <View style={styles.statusBox}>
+          <MaterialIcons name="hourglass-empty" size={18} color="#F59E0B" />
+          <Text style={styles.statusText}>
+            Reset requested {new Date(pendingRequest.created_at).toLocaleDateString()}. Waiting for an administrator.
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.form}>
+          {lastResolved && (
+            <Text style={styles.resolvedText}>
+              Last request {lastResolved.status} on{' '}
+              {new Date(lastResolved.resolved_at ?? lastResolved.created_at).toLocaleDateString()}
+            </Text>
+          )}
+          <TextInput
+            style={styles.input}
+            placeholder="Why do you need a reset? (e.g. new phone)"
+            value={reason}
+            onChangeText={setReason}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.requestButton, !reason.trim() && styles.disabledButton]}
+            onPress={submitRequest}
+            disabled={isSubmitting || !reason.trim()}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <MaterialIcons name="phonelink-erase" size={20} color="#FFFFFF" />
+                <Text style={styles.requestButtonText}>Request Device Reset</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  deviceInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  deviceLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  deviceDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  statusBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFBEB',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#92400E',
+    marginLeft: 8,
+  },
+  form: {
+    marginTop: 12,
+  },
+  resolvedText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 10,
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  requestButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3B82F6',
+    padding: 12,
+    borderRadius: 8,
+  },
+  requestButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  disabledButton: {
+    backgroundColor: '#9CA3AF',
+  },
+});
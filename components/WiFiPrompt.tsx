@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -9,21 +9,33 @@ import {
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LocationService } from '@/services/LocationService';
+import { CampusNetworkService } from '@/services/CampusNetworkService';
+import { NetworkUtils } from '@/utils/NetworkUtils';
 
 interface WiFiPromptProps {
   visible: boolean;
   onClose: () => void;
-  onContinue: () => void;
+  // bypassed is true when the user continues without joining a campus network
+  onContinue: (bypassed: boolean) => void;
 }
 
 export default function WiFiPrompt({ visible, onClose, onContinue }: WiFiPromptProps) {
+  const [networkNames, setNetworkNames] = useState('campus');
+
+  useEffect(() => {
+    if (!visible) return;
+    CampusNetworkService.fetchActiveNetworks()
+      .then(networks => setNetworkNames(NetworkUtils.describe(networks)))
+      .catch(error => console.warn('Campus network lookup failed:', error));
+  }, [visible]);
+
   const checkWiFiAgain = async () => {
     const isConnected = await LocationService.checkWiFiConnection();
     if (isConnected) {
-      Alert.alert('Success', 'Connected to iBUS@MUJ WiFi!');
-      onContinue();
+      Alert.alert('Success', 'Connected to campus WiFi!');
+      onContinue(false);
     } else {
-      Alert.alert('Not Connected', 'Please connect to iBUS@MUJ WiFi network and try again.');
+      Alert.alert('Not Connected', `Please connect to the ${networkNames} WiFi network and try again.`);
     }
   };
 
@@ -34,7 +46,7 @@ export default function WiFiPrompt({ visible, onClose, onContinue }: WiFiPromptP
           <MaterialIcons name="wifi" size={48} color="#F59E0B" />
           <Text style={styles.title}>WiFi Connection Required</Text>
           <Text style={styles.message}>
-            Please connect to "iBUS@MUJ" WiFi network for accurate attendance marking.
+            Please connect to the {networkNames} WiFi network for accurate attendance marking.
           </Text>
           
           <View style={styles.buttonContainer}>
@@ -47,7 +59,7 @@ export default function WiFiPrompt({ visible, onClose, onContinue }: WiFiPromptP
               <Text style={styles.checkButtonText}>Check Again</Text>
             </TouchableOpacity>
             
-            <TouchableOpacity style={styles.continueButton} onPress={onContinue}>
+            <TouchableOpacity style={styles.continueButton} onPress={() => onContinue(true)}>
               <Text style={styles.continueButtonText}>Continue Anyway</Text>
             </TouchableOpacity>
           </View>
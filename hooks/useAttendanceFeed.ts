@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Attendance } from '@/lib/supabase';
+
+export type FeedConnection = 'connecting' | 'live' | 'polling';
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Streams attendance rows for a session over Supabase Realtime, falling back to
+// polling while the websocket is down and resubscribing with exponential backoff.
+export function useAttendanceFeed(sessionId: string | null) {
+  const [records, setRecords] = useState<Attendance[]>([]);
+  const [connection, setConnection] = useState<FeedConnection>('connecting');
+  const sessionIdRef = useRef(sessionId);
+
+  const refresh = useCallback(async () => {
+    const id = sessionIdRef.current;
+    if (!id) return;
+
+    const { data, error } = await supabase
+      .from('attendance')
+      .select('*')
+      .eq('session_id', id);
+
+    if (error) {
+      console.warn('Attendance refresh failed:', error);
+      return;
+    }
+    // Ignore responses for a session we've since moved away from
+    if (data && sessionIdRef.current === id) {
+      setRecords(data);
+    }
+  }, []);
+
+  useEffect(() => {
+    sessionIdRef.current = sessionId;
+    setRecords([]);
+
+    if (!sessionId) {
+      setConnection('connecting');
+      return;
+    }
+
+    let channel: RealtimeChannel | null = null;
+    let pollInterval: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    let reconnectAttempts = 0;
+    let disposed = false;
+
+    const applyChange = (payload: RealtimePostgresChangesPayload<Attendance>) => {
+      if (payload.eventType === 'DELETE') {
+        const removedId = (payload.old as Partial<Attendance>).id;
+        setRecords(prev => prev.filter(record => record.id !== removedId));
+        return;
+      }
+
+      const record = payload.new as Attendance;
+      setRecords(prev => {
+        const index = prev.findIndex(existing => existing.id === record.id);
+        if (index === -1) {
+          return [...prev, record];
+        }
+        const next = [...prev];
+        next[index] = record;
+        return next;
+      });
+    };
+
+    const startPolling = () => {
+      if (pollInterval) return;
+      setConnection('polling');
+      pollInterval = setInterval(refresh, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollInterval) {
+        clearInterval(pollInterval);
+        pollInterval = null;
+      }
+    };
+
+    const scheduleReconnect = () => {
+      if (disposed || reconnectTimeout) return;
+      const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+      reconnectAttempts++;
+      reconnectTimeout = setTimeout(() => {
+        reconnectTimeout = null;
+        subscribe();
+      }, delay);
+    };
+
+    const subscribe = () => {
+      if (disposed) return;
+
+      // Drop the previous channel first: channel() reuses an existing one with the
+      // same topic. Clearing the reference makes its CLOSED callback a no-op.
+      const previous = channel;
+      channel = null;
+      if (previous) {
+        supabase.removeChannel(previous);
+      }
+
+      const nextChannel = supabase
+        .channel(`attendance:${sessionId}`)
+        .on<Attendance>(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'attendance',
+            filter: `session_id=eq.${sessionId}`,
+          },
+          applyChange
+        );
+
+      channel = nextChannel;
+
+      nextChannel.subscribe((status, err) => {
+        if (disposed || channel !== nextChannel) return;
+
+        if (status === 'SUBSCRIBED') {
+          reconnectAttempts = 0;
+          stopPolling();
+          setConnection('live');
+          // Catch up on anything submitted while we were disconnected
+          refresh();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          if (err) {
+            console.warn('Attendance feed disconnected:', err);
+          }
+          startPolling();
+          scheduleReconnect();
+        }
+      });
+    };
+
+    setConnection('connecting');
+    refresh();
+    subscribe();
+
+    return () => {
+      disposed = true;
+      stopPolling();
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+      }
+      if (channel) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [sessionId, refresh]);
+
+  return { records, connection, refresh };
+}
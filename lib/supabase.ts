@@ -19,7 +19,73 @@ export interface User {
   email: string;
   name: string;
   registration_number: string;
-  role: 'student' | 'faculty';
+  role: 'student' | 'faculty' | 'admin';
+  // Faculty sign-ups stay pending until an admin approves them
+  approval_status: ApprovalStatus;
+  department_id: string | null;
+  created_at: string;
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Department {
+  id: string;
+  code: string;
+  name: string;
+  created_at: string;
+}
+
+// Per-session verification policy; courses store a default copied into new sessions
+export interface SessionPolicy {
+  duration_minutes: number;
+  radius_padding: number;
+  student_radius_padding: number;
+  coverage_threshold: number;
+  max_accuracy: number;
+}
+
+export interface Course {
+  id: string;
+  faculty_id: string;
+  code: string;
+  name: string;
+  attendance_threshold: number;
+  default_policy: SessionPolicy;
+  department_id: string | null;
+  created_at: string;
+}
+
+// WiFi network that counts as on campus; a BSSID pins the entry to one access point
+export interface CampusNetwork {
+  id: string;
+  ssid: string;
+  bssid: string | null;
+  label: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface GeofencePoint {
+  latitude: number;
+  longitude: number;
+}
+
+// A named room or area; sessions bound to geofences are judged against these instead of a circle
+export interface Geofence {
+  id: string;
+  name: string;
+  building: string | null;
+  floor: number | null;
+  polygon: GeofencePoint[];
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface CourseEnrollment {
+  id: string;
+  course_id: string;
+  student_name: string;
+  registration_number: string;
   created_at: string;
 }
 
@@ -27,29 +93,160 @@ export interface Session {
   id: string;
   faculty_id: string;
   faculty_name: string;
+  course_id: string | null;
   student_list: Array<{ name: string; registration_number: string }>;
   session_latitude: number;
   session_longitude: number;
   session_accuracy: number;
   session_radius: number;
-  wifi_ssid: string;
+  wifi_ssid: string | null;
+  wifi_bssid: string | null;
+  connection_type: string | null;
+  wifi_bypassed: boolean;
+  // Null when no campus networks are configured
+  network_matched: boolean | null;
+  wifi_required: boolean;
+  qr_required: boolean;
+  qr_rotation_seconds: number;
+  policy: SessionPolicy;
   is_active: boolean;
   expires_at: string;
+  paused_at: string | null;
+  closed_at: string | null;
   created_at: string;
 }
 
+// Location spoofing indicators collected on the device; clock drift is added server-side
+export interface SpoofSignals {
+  mocked: boolean;
+  implausible_accuracy: boolean;
+  identical_readings: boolean;
+  zero_altitude_variance: boolean;
+  reading_count: number;
+  clock_drift_seconds?: number;
+}
+
+export type AttendanceStatus = 'present' | 'proxy' | 'absent' | 'excused';
+
+// Location fields are null for absent rows materialized when a session ends
 export interface Attendance {
   id: string;
   session_id: string;
+  student_id: string | null;
   student_name: string;
   student_registration: string;
-  student_latitude: number;
-  student_longitude: number;
-  student_accuracy: number;
-  student_radius: number;
-  distance_from_session: number;
-  coverage_percentage: number;
-  status: 'present' | 'proxy';
-  wifi_ssid: string;
-  created_at: string;
-}
\ No newline at end of file
+  student_latitude: number | null;
+  student_longitude: number | null;
+  student_accuracy: number | null;
+  student_radius: number | null;
+  distance_from_session: number | null;
+  coverage_percentage: number | null;
+  status: AttendanceStatus;
+  wifi_ssid: string | null;
+  wifi_bssid: string | null;
+  connection_type: string | null;
+  wifi_bypassed: boolean;
+  network_matched: boolean | null;
+  // 0-100, scored by the database from the spoofing signals; null for rows without a fix
+  spoof_risk_score: number | null;
+  spoof_signals: SpoofSignals | null;
+  // Per-install identifier of the phone that submitted; null for older and absent rows
+  device_id: string | null;
+  qr_verified: boolean;
+  // Faculty decision layered over the computed status; both are kept for auditing
+  override_status: AttendanceStatus | null;
+  override_reason: string | null;
+  overridden_by: string | null;
+  overridden_at: string | null;
+  created_at: string;
+}
+export type AppealStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface AttendanceAppeal {
+  id: string;
+  attendance_id: string;
+  session_id: string;
+  student_id: string;
+  reason: string;
+  requested_status: 'present' | 'excused';
+  evidence_path: string | null;
+  status: AppealStatus;
+  faculty_response: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// Appeals are listed together with the record they contest
+export type AppealWithAttendance = AttendanceAppeal & { attendance: Attendance };
+
+// Row returned by student_attendance_history(); course fields are null for sessions without a course
+export interface AttendanceHistoryEntry {
+  attendance_id: string;
+  session_id: string;
+  session_date: string;
+  faculty_name: string;
+  course_id: string | null;
+  course_code: string | null;
+  course_name: string | null;
+  attendance_threshold: number | null;
+  status: AttendanceStatus;
+  override_status: AttendanceStatus | null;
+  distance_from_session: number | null;
+  coverage_percentage: number | null;
+  marked_at: string;
+}
+
+// Written by database triggers; old/new values hold only the columns that changed
+export interface AuditEvent {
+  id: string;
+  session_id: string;
+  table_name: 'sessions' | 'attendance';
+  record_id: string;
+  action: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// Row returned by course_attendance_overview(); counts use effective statuses
+export interface CourseAttendanceOverview {
+  course_id: string;
+  course_code: string;
+  course_name: string;
+  department_id: string | null;
+  faculty_id: string;
+  faculty_name: string | null;
+  roster_size: number;
+  session_count: number;
+  attended_count: number;
+  counted_count: number;
+}
+
+// A phone bound to a student account; revoked devices no longer count towards the limit
+export interface StudentDevice {
+  id: string;
+  student_id: string;
+  device_id: string;
+  device_label: string | null;
+  registered_at: string;
+  last_seen_at: string;
+  revoked_at: string | null;
+}
+
+export interface DeviceResetRequest {
+  id: string;
+  student_id: string;
+  reason: string;
+  status: ApprovalStatus;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// Reset requests are reviewed alongside the requesting student
+export type DeviceResetRequestWithStudent = DeviceResetRequest & {
+  student: Pick<User, 'name' | 'registration_number' | 'email'>;
+};
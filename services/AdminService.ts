@@ -0,0 +1,128 @@
+import { supabase, User, Course, Department, ApprovalStatus, CourseAttendanceOverview } from '@/lib/supabase';
+import { SessionService } from '@/services/SessionService';
+
+export interface CourseAssignment {
+  faculty_id: string;
+  department_id: string | null;
+}
+
+export class AdminService {
+  static async fetchFaculty(): Promise<User[]> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('role', 'faculty')
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load faculty: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async setApprovalStatus(userId: string, status: ApprovalStatus): Promise<User> {
+    const { data, error } = await supabase
+      .from('users')
+      .update({ approval_status: status })
+      .eq('id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update approval: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async fetchDepartments(): Promise<Department[]> {
+    const { data, error } = await supabase
+      .from('departments')
+      .select('*')
+      .order('code', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load departments: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async createDepartment(code: string, name: string): Promise<Department> {
+    const { data, error } = await supabase
+      .from('departments')
+      .insert({
+        code: code.trim().toUpperCase(),
+        name: name.trim(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') { // Unique constraint violation
+        throw new Error(`A department with code ${code.trim().toUpperCase()} already exists`);
+      }
+      throw new Error(`Failed to create department: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async fetchAllCourses(): Promise<Course[]> {
+    const { data, error } = await supabase
+      .from('courses')
+      .select('*')
+      .order('code', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load courses: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async createCourse(code: string, name: string, assignment: CourseAssignment): Promise<Course> {
+    const { data, error } = await supabase
+      .from('courses')
+      .insert({
+        code: code.trim(),
+        name: name.trim(),
+        ...assignment,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') { // Unique constraint violation
+        throw new Error(`That faculty member already has a course with code ${code.trim()}`);
+      }
+      throw new Error(`Failed to create course: ${error.message}`);
+    }
+    return data;
+  }
+
+  // Reassigning faculty hands over the roster and future sessions; past sessions keep their owner
+  static async assignCourse(courseId: string, assignment: CourseAssignment): Promise<Course> {
+    const { data, error } = await supabase
+      .from('courses')
+      .update(assignment)
+      .eq('id', courseId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') { // Unique constraint violation
+        throw new Error('That faculty member already has a course with this code');
+      }
+      throw new Error(`Failed to assign course: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async fetchAttendanceOverview(): Promise<CourseAttendanceOverview[]> {
+    await SessionService.expireSessions();
+
+    const { data, error } = await supabase.rpc('course_attendance_overview');
+
+    if (error) {
+      throw new Error(`Failed to load attendance overview: ${error.message}`);
+    }
+    return data || [];
+  }
+}
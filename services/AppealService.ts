@@ -0,0 +1,126 @@
+import * as FileSystem from 'expo-file-system';
+import { supabase, Attendance, AttendanceAppeal, AppealWithAttendance } from '@/lib/supabase';
+import { StatusUtils } from '@/utils/StatusUtils';
+
+const EVIDENCE_BUCKET = 'appeal-evidence';
+
+export interface EvidenceFile {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+export class AppealService {
+  // The student's proxy and absent records, newest first; overrides decide what is contestable
+  static async fetchAppealableRecords(studentId: string): Promise<Attendance[]> {
+    const { data, error } = await supabase
+      .from('attendance')
+      .select('*')
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load attendance: ${error.message}`);
+    }
+    return (data || []).filter(record => {
+      const status = StatusUtils.getEffectiveStatus(record);
+      return status === 'proxy' || status === 'absent';
+    });
+  }
+
+  static async fetchStudentAppeals(studentId: string): Promise<AppealWithAttendance[]> {
+    const { data, error } = await supabase
+      .from('attendance_appeals')
+      .select('*, attendance(*)')
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load appeals: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async fetchAppealsForSessions(sessionIds: string[]): Promise<AppealWithAttendance[]> {
+    if (sessionIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('attendance_appeals')
+      .select('*, attendance(*)')
+      .in('session_id', sessionIds)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load appeals: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  // Upload into the student's own folder; returns the storage path to attach to the appeal
+  static async uploadEvidence(studentId: string, file: EvidenceFile): Promise<string> {
+    const base64 = await FileSystem.readAsStringAsync(file.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+    const path = `${studentId}/${Date.now()}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(EVIDENCE_BUCKET)
+      .upload(path, bytes.buffer, { contentType: file.mimeType ?? 'image/jpeg' });
+
+    if (error) {
+      throw new Error(`Failed to upload evidence: ${error.message}`);
+    }
+    return path;
+  }
+
+  static async fileAppeal(
+    attendanceId: string,
+    reason: string,
+    requestedStatus: 'present' | 'excused',
+    evidencePath: string | null
+  ): Promise<AttendanceAppeal> {
+    const { data, error } = await supabase.rpc('file_appeal', {
+      p_attendance_id: attendanceId,
+      p_reason: reason.trim(),
+      p_requested_status: requestedStatus,
+      p_evidence_path: evidencePath,
+    });
+
+    if (error) {
+      if (error.code === '23505') { // Unique constraint violation
+        throw new Error('You already have a pending appeal for this record');
+      }
+      throw new Error(`Failed to file appeal: ${error.message}`);
+    }
+    return data as AttendanceAppeal;
+  }
+
+  static async resolveAppeal(appealId: string, accept: boolean, response: string): Promise<AttendanceAppeal> {
+    const { data, error } = await supabase.rpc('resolve_appeal', {
+      p_appeal_id: appealId,
+      p_accept: accept,
+      p_response: response.trim() || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to resolve appeal: ${error.message}`);
+    }
+    return data as AttendanceAppeal;
+  }
+
+  // Evidence lives in a private bucket, so links are short-lived
+  static async getEvidenceUrl(path: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(EVIDENCE_BUCKET)
+      .createSignedUrl(path, 60 * 10);
+
+    if (error || !data) {
+      throw new Error(`Failed to load evidence: ${error?.message ?? 'No link returned'}`);
+    }
+    return data.signedUrl;
+  }
+}
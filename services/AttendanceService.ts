@@ -0,0 +1,37 @@
+import { supabase, Attendance, AttendanceStatus, AttendanceHistoryEntry } from '@/lib/supabase';
+import { SessionService } from '@/services/SessionService';
+
+export class AttendanceService {
+  // Record the faculty's verdict alongside the computed one; a null status clears the override
+  static async overrideAttendance(
+    sessionId: string,
+    registrationNumber: string,
+    status: AttendanceStatus | null,
+    reason: string
+  ): Promise<Attendance> {
+    const { data, error } = await supabase.rpc('override_attendance', {
+      p_session_id: sessionId,
+      p_registration: registrationNumber,
+      p_status: status,
+      p_reason: reason.trim(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to override attendance: ${error.message}`);
+    }
+    return data as Attendance;
+  }
+
+  // The signed-in student's own records with session and course details
+  static async fetchStudentHistory(): Promise<AttendanceHistoryEntry[]> {
+    // Absences only count once their session has been closed
+    await SessionService.expireSessions();
+
+    const { data, error } = await supabase.rpc('student_attendance_history');
+
+    if (error) {
+      throw new Error(`Failed to load attendance history: ${error.message}`);
+    }
+    return (data || []) as AttendanceHistoryEntry[];
+  }
+}
@@ -0,0 +1,89 @@
+import { supabase, CampusNetwork } from '@/lib/supabase';
+import { NetworkUtils } from '@/utils/NetworkUtils';
+
+export class CampusNetworkService {
+  // The list rarely changes, so one fetch per app launch is enough for WiFi checks
+  private static activeNetworks: CampusNetwork[] | null = null;
+
+  static async fetchActiveNetworks(forceRefresh = false): Promise<CampusNetwork[]> {
+    if (this.activeNetworks && !forceRefresh) {
+      return this.activeNetworks;
+    }
+
+    const { data, error } = await supabase
+      .from('campus_networks')
+      .select('*')
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Failed to load campus networks: ${error.message}`);
+    }
+    this.activeNetworks = data || [];
+    return this.activeNetworks;
+  }
+
+  static async fetchAllNetworks(): Promise<CampusNetwork[]> {
+    const { data, error } = await supabase
+      .from('campus_networks')
+      .select('*')
+      .order('ssid', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load campus networks: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async createNetwork(ssid: string, bssid: string, label: string): Promise<CampusNetwork> {
+    const normalizedBssid = NetworkUtils.normalizeBssid(bssid);
+    if (bssid.trim() && !normalizedBssid) {
+      throw new Error('BSSID must be a MAC address such as a4:2b:b0:12:34:56');
+    }
+
+    const { data, error } = await supabase
+      .from('campus_networks')
+      .insert({
+        ssid: ssid.trim(),
+        bssid: normalizedBssid,
+        label: label.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') { // Unique constraint violation
+        throw new Error(`${ssid.trim()} is already configured${normalizedBssid ? ` for ${normalizedBssid}` : ''}`);
+      }
+      throw new Error(`Failed to add campus network: ${error.message}`);
+    }
+    this.activeNetworks = null;
+    return data;
+  }
+
+  static async setNetworkActive(networkId: string, isActive: boolean): Promise<CampusNetwork> {
+    const { data, error } = await supabase
+      .from('campus_networks')
+      .update({ is_active: isActive })
+      .eq('id', networkId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update campus network: ${error.message}`);
+    }
+    this.activeNetworks = null;
+    return data;
+  }
+
+  static async deleteNetwork(networkId: string): Promise<void> {
+    const { error } = await supabase
+      .from('campus_networks')
+      .delete()
+      .eq('id', networkId);
+
+    if (error) {
+      throw new Error(`Failed to remove campus network: ${error.message}`);
+    }
+    this.activeNetworks = null;
+  }
+}
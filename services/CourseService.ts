@@ -0,0 +1,130 @@
+import { supabase, Course, CourseEnrollment, Session, Attendance, SessionPolicy } from '@/lib/supabase';
+
+export interface RosterEntry {
+  name: string;
+  registration_number: string;
+}
+
+export class CourseService {
+  static async fetchCourses(facultyId: string): Promise<Course[]> {
+    const { data, error } = await supabase
+      .from('courses')
+      .select('*')
+      .eq('faculty_id', facultyId)
+      .order('code', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load courses: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async createCourse(facultyId: string, code: string, name: string): Promise<Course> {
+    const { data, error } = await supabase
+      .from('courses')
+      .insert({
+        faculty_id: facultyId,
+        code: code.trim(),
+        name: name.trim(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') { // Unique constraint violation
+        throw new Error(`A course with code ${code.trim()} already exists`);
+      }
+      throw new Error(`Failed to create course: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async fetchRoster(courseId: string): Promise<CourseEnrollment[]> {
+    const { data, error } = await supabase
+      .from('course_enrollments')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('registration_number', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load roster: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  // Replace the course roster with the given list of students; the old roster is kept if saving fails
+  static async replaceRoster(courseId: string, roster: RosterEntry[]): Promise<CourseEnrollment[]> {
+    const { data, error } = await supabase.rpc('replace_course_roster', {
+      p_course_id: courseId,
+      p_roster: roster.map(student => ({
+        name: student.name,
+        registration_number: student.registration_number,
+      })),
+    });
+
+    if (error) {
+      if (error.code === '23505') { // Unique constraint violation
+        throw new Error('The roster lists the same registration number more than once');
+      }
+      throw new Error(`Failed to save roster: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async updateThreshold(courseId: string, threshold: number): Promise<Course> {
+    const { data, error } = await supabase
+      .from('courses')
+      .update({ attendance_threshold: threshold })
+      .eq('id', courseId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update threshold: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async updateDefaultPolicy(courseId: string, policy: SessionPolicy): Promise<Course> {
+    const { data, error } = await supabase
+      .from('courses')
+      .update({ default_policy: policy })
+      .eq('id', courseId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save course policy: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async fetchCourseSessions(courseId: string): Promise<Session[]> {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load sessions: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async fetchAttendanceForSessions(sessionIds: string[]): Promise<Attendance[]> {
+    if (sessionIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('attendance')
+      .select('*')
+      .in('session_id', sessionIds);
+
+    if (error) {
+      throw new Error(`Failed to load attendance: ${error.message}`);
+    }
+    return data || [];
+  }
+}
@@ -0,0 +1,107 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  supabase,
+  StudentDevice,
+  DeviceResetRequest,
+  DeviceResetRequestWithStudent,
+} from '@/lib/supabase';
+
+const DEVICE_ID_KEY = 'attendance.device_id';
+
+export class DeviceService {
+  private static deviceId: string | null = null;
+
+  // Generated on first use and kept for the lifetime of the install
+  static async getDeviceId(): Promise<string> {
+    if (this.deviceId) {
+      return this.deviceId;
+    }
+
+    let deviceId = await AsyncStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = this.generateId();
+      await AsyncStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    this.deviceId = deviceId;
+    return deviceId;
+  }
+
+  // Shown to administrators when reviewing a reset, e.g. "ios 17.4"
+  static getDeviceLabel(): string {
+    return `${Platform.OS} ${Platform.Version}`;
+  }
+
+  static async fetchMyDevices(studentId: string): Promise<StudentDevice[]> {
+    const { data, error } = await supabase
+      .from('student_devices')
+      .select('*')
+      .eq('student_id', studentId)
+      .is('revoked_at', null)
+      .order('registered_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load devices: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async fetchMyResetRequests(studentId: string): Promise<DeviceResetRequest[]> {
+    const { data, error } = await supabase
+      .from('device_reset_requests')
+      .select('*')
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load device reset requests: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async requestReset(reason: string): Promise<DeviceResetRequest> {
+    const { data, error } = await supabase.rpc('request_device_reset', {
+      p_reason: reason.trim(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to request device reset: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async fetchPendingResets(): Promise<DeviceResetRequestWithStudent[]> {
+    const { data, error } = await supabase
+      .from('device_reset_requests')
+      .select('*, student:users!device_reset_requests_student_id_fkey(name, registration_number, email)')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load device reset requests: ${error.message}`);
+    }
+    return (data || []) as DeviceResetRequestWithStudent[];
+  }
+
+  // Approving revokes every active device so the student's next phone registers afresh
+  static async resolveReset(requestId: string, approve: boolean): Promise<DeviceResetRequest> {
+    const { data, error } = await supabase.rpc('resolve_device_reset', {
+      p_request_id: requestId,
+      p_approve: approve,
+    });
+
+    if (error) {
+      throw new Error(`Failed to resolve device reset: ${error.message}`);
+    }
+    return data;
+  }
+
+  // RFC 4122 version 4 layout; uniqueness per install is all that is needed here
+  private static generateId(): string {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+      const random = Math.floor(Math.random() * 16);
+      const value = char === 'x' ? random : (random & 0x3) | 0x8;
+      return value.toString(16);
+    });
+  }
+}
@@ -0,0 +1,295 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import * as XLSX from 'xlsx';
+import { Attendance, Course, Session } from '@/lib/supabase';
+import { Register, RegisterUtils } from '@/utils/RegisterUtils';
+import { RegisterStatus, StatusUtils } from '@/utils/StatusUtils';
+import { NetworkUtils } from '@/utils/NetworkUtils';
+
+export type ExportFormat = 'xlsx' | 'csv' | 'pdf';
+
+type Cell = string | number;
+
+// Name and Registration Number match the column names accepted by the roster import
+const DETAIL_HEADERS = [
+  'Name',
+  'Registration Number',
+  'Session',
+  'Session Date',
+  'Status',
+  'Distance (m)',
+  'Coverage (%)',
+  'Accuracy (m)',
+  'Network',
+  'Spoof Risk',
+  'Marked At',
+  'Computed Status',
+  'Override Reason',
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+};
+
+const UTIS: Record<ExportFormat, string> = {
+  xlsx: 'org.openxmlformats.spreadsheetml.sheet',
+  csv: 'public.comma-separated-values-text',
+  pdf: 'com.adobe.pdf',
+};
+
+export class ExportService {
+  // Export a single session: one row per student on the session's roster
+  static async exportSession(
+    session: Session,
+    records: Attendance[],
+    course: Course | null,
+    format: ExportFormat
+  ): Promise<void> {
+    const recordIndex = this.indexRecords(records);
+    const fallback: RegisterStatus = RegisterUtils.isSessionOpen(session) ? 'pending' : 'absent';
+
+    const entries = session.student_list.map(student => {
+      const record = recordIndex.get(`${session.id}:${student.registration_number.toLowerCase().trim()}`);
+      return { student, record, status: record ? StatusUtils.getEffectiveStatus(record) : fallback };
+    });
+    const rows = entries.map(({ student, record, status }) =>
+      this.buildDetailRow(student.name, student.registration_number, session, status, record)
+    );
+
+    const title = course ? `${course.code} - Session ${session.id}` : `Session ${session.id}`;
+    const baseName = this.fileName(course ? `${course.code}_session_${session.id}` : `session_${session.id}`);
+
+    switch (format) {
+      case 'xlsx': {
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([DETAIL_HEADERS, ...rows]), 'Attendance');
+        await this.shareWorkbook(workbook, baseName);
+        break;
+      }
+      case 'csv':
+        await this.shareCsv([DETAIL_HEADERS, ...rows], baseName);
+        break;
+      case 'pdf': {
+        const counts = this.countStatuses(entries.map(entry => entry.status));
+        const summary = [
+          `Faculty: ${session.faculty_name}`,
+          `Date: ${this.formatTimestamp(session.created_at)}`,
+          `Present: ${counts.present} · Proxy: ${counts.proxy} · Absent: ${counts.absent} · Excused: ${counts.excused}`,
+        ];
+        await this.sharePdf(title, summary, DETAIL_HEADERS, rows, baseName);
+        break;
+      }
+    }
+  }
+
+  // Export a course register: the session grid plus a detail sheet of every attendance row
+  static async exportRegister(
+    course: Course,
+    register: Register,
+    records: Attendance[],
+    format: ExportFormat
+  ): Promise<void> {
+    const recordIndex = this.indexRecords(records);
+    const baseName = this.fileName(`${course.code}_register`);
+
+    const gridHeaders = [
+      'Name',
+      'Registration Number',
+      ...register.sessions.map(session => this.formatDate(session.created_at)),
+      'Attended',
+      'Counted',
+      'Percentage',
+    ];
+    const gridRows: Cell[][] = register.rows.map(row => [
+      row.name,
+      row.registration_number,
+      ...row.cells,
+      row.attended,
+      row.counted,
+      Number(row.percentage.toFixed(1)),
+    ]);
+
+    const detailRows: Cell[][] = [];
+    register.rows.forEach(row => {
+      const regLower = row.registration_number.toLowerCase().trim();
+      register.sessions.forEach((session, index) => {
+        detailRows.push(this.buildDetailRow(
+          row.name,
+          row.registration_number,
+          session,
+          row.cells[index],
+          recordIndex.get(`${session.id}:${regLower}`)
+        ));
+      });
+    });
+
+    switch (format) {
+      case 'xlsx': {
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([gridHeaders, ...gridRows]), 'Register');
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([DETAIL_HEADERS, ...detailRows]), 'Records');
+        await this.shareWorkbook(workbook, baseName);
+        break;
+      }
+      case 'csv':
+        // ERP imports expect one row per student per session
+        await this.shareCsv([DETAIL_HEADERS, ...detailRows], baseName);
+        break;
+      case 'pdf': {
+        const shortfall = register.rows.filter(row => row.belowThreshold).length;
+        const summary = [
+          `${register.sessions.length} sessions · ${register.rows.length} students`,
+          `${shortfall} below the ${course.attendance_threshold}% threshold`,
+          'P present · X proxy · A absent · E excused · - pending',
+        ];
+        // Single-letter cells keep a long semester on one printed page width
+        const printedRows: Cell[][] = register.rows.map(row => [
+          row.name,
+          row.registration_number,
+          ...row.cells.map(status => StatusUtils.getStatusShortLabel(status)),
+          row.attended,
+          row.counted,
+          `${row.percentage.toFixed(1)}%`,
+        ]);
+        await this.sharePdf(`${course.code} - ${course.name}`, summary, gridHeaders, printedRows, baseName);
+        break;
+      }
+    }
+  }
+
+  private static indexRecords(records: Attendance[]): Map<string, Attendance> {
+    const index = new Map<string, Attendance>();
+    records.forEach(record => {
+      index.set(`${record.session_id}:${record.student_registration.toLowerCase().trim()}`, record);
+    });
+    return index;
+  }
+
+  private static buildDetailRow(
+    name: string,
+    registrationNumber: string,
+    session: Session,
+    status: RegisterStatus,
+    record?: Attendance
+  ): Cell[] {
+    return [
+      name,
+      registrationNumber,
+      session.id,
+      this.formatTimestamp(session.created_at),
+      status,
+      record?.distance_from_session != null ? Number(record.distance_from_session.toFixed(1)) : '',
+      record?.coverage_percentage != null ? Number(record.coverage_percentage.toFixed(1)) : '',
+      record?.student_accuracy != null ? Number(record.student_accuracy.toFixed(1)) : '',
+      record ? NetworkUtils.describeConnection(record) ?? '' : '',
+      record?.spoof_risk_score ?? '',
+      record ? this.formatTimestamp(record.created_at) : '',
+      record ? record.status : '',
+      record?.override_reason ?? '',
+    ];
+  }
+
+  private static countStatuses(statuses: RegisterStatus[]): Record<RegisterStatus, number> {
+    const counts: Record<RegisterStatus, number> = { present: 0, proxy: 0, absent: 0, excused: 0, pending: 0 };
+    statuses.forEach(status => {
+      counts[status]++;
+    });
+    return counts;
+  }
+
+  private static async shareWorkbook(workbook: XLSX.WorkBook, baseName: string): Promise<void> {
+    const content = XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' });
+    const uri = `${FileSystem.cacheDirectory}${baseName}.xlsx`;
+    await FileSystem.writeAsStringAsync(uri, content, { encoding: FileSystem.EncodingType.Base64 });
+    await this.share(uri, 'xlsx');
+  }
+
+  private static async shareCsv(rows: Cell[][], baseName: string): Promise<void> {
+    const safeRows = rows.map(row => row.map(cell => this.neutralizeFormula(cell)));
+    const content = XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(safeRows));
+    const uri = `${FileSystem.cacheDirectory}${baseName}.csv`;
+    await FileSystem.writeAsStringAsync(uri, content, { encoding: FileSystem.EncodingType.UTF8 });
+    await this.share(uri, 'csv');
+  }
+
+  private static async sharePdf(
+    title: string,
+    summary: string[],
+    headers: string[],
+    rows: Cell[][],
+    baseName: string
+  ): Promise<void> {
+    const html = `
+      <html>
+        <head>
+          <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+          <style>
+            body { font-family: -apple-system, Helvetica, Arial, sans-serif; padding: 24px; color: #1F2937; }
+            h1 { font-size: 20px; margin-bottom: 8px; }
+            p { font-size: 12px; color: #6B7280; margin: 2px 0; }
+            table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 10px; }
+            th, td { border: 1px solid #E5E7EB; padding: 4px 6px; text-align: left; }
+            th { background: #F3F4F6; }
+          </style>
+        </head>
+        <body>
+          <h1>${this.escapeHtml(title)}</h1>
+          ${summary.map(line => `<p>${this.escapeHtml(line)}</p>`).join('')}
+          <table>
+            <tr>${headers.map(header => `<th>${this.escapeHtml(header)}</th>`).join('')}</tr>
+            ${rows.map(row => `<tr>${row.map(cell => `<td>${this.escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('')}
+          </table>
+        </body>
+      </html>
+    `;
+
+    const { uri } = await Print.printToFileAsync({ html });
+    // printToFileAsync picks a random name; give the shared file a meaningful one
+    const target = `${FileSystem.cacheDirectory}${baseName}.pdf`;
+    await FileSystem.deleteAsync(target, { idempotent: true });
+    await FileSystem.moveAsync({ from: uri, to: target });
+    await this.share(target, 'pdf');
+  }
+
+  private static async share(uri: string, format: ExportFormat): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    await Sharing.shareAsync(uri, {
+      mimeType: MIME_TYPES[format],
+      UTI: UTIS[format],
+      dialogTitle: 'Export Attendance',
+    });
+  }
+
+  private static fileName(name: string): string {
+    return name.replace(/[^A-Za-z0-9_-]+/g, '_');
+  }
+
+  private static formatDate(timestamp: string): string {
+    const date = new Date(timestamp);
+    return `${date.getDate()}/${date.getMonth() + 1}/${date.getFullYear()}`;
+  }
+
+  private static formatTimestamp(timestamp: string): string {
+    const date = new Date(timestamp);
+    return `${this.formatDate(timestamp)} ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+  }
+
+  // Spreadsheets and ERP imports run text starting with these as a formula; a leading quote keeps it text
+  private static neutralizeFormula(cell: Cell): Cell {
+    return typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+  }
+
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,118 @@
+import { supabase, Geofence } from '@/lib/supabase';
+import { GeometryUtils } from '@/utils/GeometryUtils';
+
+export class GeofenceService {
+  static async fetchActiveGeofences(): Promise<Geofence[]> {
+    const { data, error } = await supabase
+      .from('geofences')
+      .select('*')
+      .eq('is_active', true)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load geofences: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async fetchAllGeofences(): Promise<Geofence[]> {
+    const { data, error } = await supabase
+      .from('geofences')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load geofences: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  static async createGeofence(
+    name: string,
+    building: string,
+    floor: string,
+    corners: string
+  ): Promise<Geofence> {
+    const polygon = GeometryUtils.parsePolygon(corners);
+    if (!polygon) {
+      throw new Error('Enter one "latitude, longitude" pair per line');
+    }
+    if (polygon.length < 3) {
+      throw new Error('A geofence needs at least three corners');
+    }
+
+    const floorNumber = floor.trim() ? Number(floor) : null;
+    if (floorNumber !== null && !Number.isInteger(floorNumber)) {
+      throw new Error('Floor must be a whole number');
+    }
+
+    const { data, error } = await supabase
+      .from('geofences')
+      .insert({
+        name: name.trim(),
+        building: building.trim() || null,
+        floor: floorNumber,
+        polygon,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add geofence: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async setGeofenceActive(geofenceId: string, isActive: boolean): Promise<Geofence> {
+    const { data, error } = await supabase
+      .from('geofences')
+      .update({ is_active: isActive })
+      .eq('id', geofenceId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update geofence: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async deleteGeofence(geofenceId: string): Promise<void> {
+    const { error } = await supabase
+      .from('geofences')
+      .delete()
+      .eq('id', geofenceId);
+
+    if (error) {
+      if (error.code === '23503') { // Foreign key violation
+        throw new Error('This geofence was used by past sessions. Deactivate it instead.');
+      }
+      throw new Error(`Failed to remove geofence: ${error.message}`);
+    }
+  }
+
+  static async fetchSessionGeofences(sessionId: string): Promise<Geofence[]> {
+    const { data, error } = await supabase
+      .from('session_geofences')
+      .select('geofence:geofences(*)')
+      .eq('session_id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to load session geofences: ${error.message}`);
+    }
+    return ((data || []) as unknown as { geofence: Geofence }[]).map(row => row.geofence);
+  }
+
+  // Must complete before the session code is shown, or early submissions are judged against the circle
+  static async bindSessionGeofences(sessionId: string, geofenceIds: string[]): Promise<void> {
+    if (geofenceIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('session_geofences')
+      .insert(geofenceIds.map(geofenceId => ({ session_id: sessionId, geofence_id: geofenceId })));
+
+    if (error) {
+      throw new Error(`Failed to bind geofences: ${error.message}`);
+    }
+  }
+}
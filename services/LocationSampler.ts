@@ -0,0 +1,99 @@
+import * as Location from 'expo-location';
+import { FusionUtils, FusedFix } from '@/utils/FusionUtils';
+
+export interface SamplingProgress {
+  readingCount: number;
+  elapsedMs: number;
+  windowMs: number;
+  // Fused accuracy so far; null until the first reading arrives
+  accuracy: number | null;
+}
+
+export interface SamplerOptions {
+  windowMs?: number;
+  // Sampling ends early once this many readings fuse to targetAccuracy or better
+  minReadings?: number;
+  targetAccuracy?: number;
+  onProgress?: (progress: SamplingProgress) => void;
+}
+
+export interface SampledLocation extends FusedFix {
+  // Every reading received, including rejected outliers, for the spoofing checks
+  readings: Location.LocationObject[];
+}
+
+export const DEFAULT_SAMPLE_WINDOW_MS = 8000;
+// The faculty anchor defines the geofence for the whole class, so it is worth a longer wait
+export const ANCHOR_SAMPLE_WINDOW_MS = 15000;
+const DEFAULT_MIN_READINGS = 3;
+const DEFAULT_TARGET_ACCURACY = 5;
+// How long to keep waiting past the window when no fix has arrived at all
+const FIRST_FIX_GRACE_MS = 10000;
+const TICK_MS = 500;
+
+export class LocationSampler {
+  // Watches position for the window and fuses what arrived; permissions must already be granted
+  static sample(options: SamplerOptions = {}): Promise<SampledLocation> {
+    const windowMs = options.windowMs ?? DEFAULT_SAMPLE_WINDOW_MS;
+    const minReadings = options.minReadings ?? DEFAULT_MIN_READINGS;
+    const targetAccuracy = options.targetAccuracy ?? DEFAULT_TARGET_ACCURACY;
+
+    return new Promise((resolve, reject) => {
+      const readings: Location.LocationObject[] = [];
+      const startedAt = Date.now();
+      let subscription: Location.LocationSubscription | null = null;
+      let finished = false;
+
+      const finish = (error?: unknown) => {
+        if (finished) return;
+        finished = true;
+        clearInterval(ticker);
+        subscription?.remove();
+
+        if (error) {
+          reject(error);
+        } else if (readings.length === 0) {
+          reject(new Error('No GPS readings obtained. Move closer to a window and try again.'));
+        } else {
+          resolve({ ...FusionUtils.fuse(readings), readings });
+        }
+      };
+
+      const check = () => {
+        const elapsedMs = Date.now() - startedAt;
+        const accuracy = readings.length > 0 ? FusionUtils.fuse(readings).accuracy : null;
+        options.onProgress?.({ readingCount: readings.length, elapsedMs, windowMs, accuracy });
+
+        const converged = readings.length >= minReadings && accuracy !== null && accuracy <= targetAccuracy;
+        const windowOver = elapsedMs >= windowMs && readings.length > 0;
+        if (converged || windowOver || elapsedMs >= windowMs + FIRST_FIX_GRACE_MS) {
+          finish();
+        }
+      };
+
+      const ticker = setInterval(check, TICK_MS);
+
+      Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.BestForNavigation,
+          timeInterval: 1000,
+          distanceInterval: 0,
+        },
+        reading => {
+          if (finished) return;
+          readings.push(reading);
+          check();
+        }
+      )
+        .then(watch => {
+          // Sampling may have timed out while the watch was starting
+          if (finished) {
+            watch.remove();
+          } else {
+            subscription = watch;
+          }
+        })
+        .catch(finish);
+    });
+  }
+}
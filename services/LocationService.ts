@@ -1,9 +1,13 @@
 import * as Location from 'expo-location';
-import { Platform } from 'react-native';
+import { Platform, Alert } from 'react-native';
 import NetInfo from '@react-native-community/netinfo';
-import { Alert } from 'react-native';
+import { CampusNetwork, SpoofSignals } from '@/lib/supabase';
+import { CampusNetworkService } from '@/services/CampusNetworkService';
+import { NetworkUtils } from '@/utils/NetworkUtils';
+import { SpoofUtils } from '@/utils/SpoofUtils';
+import { LocationSampler, SamplerOptions } from '@/services/LocationSampler';
 
-interface LocationData {
+export interface LocationData {
   coords: {
     latitude: number;
     longitude: number;
@@ -13,18 +17,51 @@ interface LocationData {
     heading?: number;
     speed?: number;
   };
-  wifiSSID: string | null;
+  network: NetworkSnapshot;
+  spoofSignals: SpoofSignals;
+  // Readings fused into the fix and outliers discarded while sampling
+  sampleCount: number;
+  rejectedCount: number;
   timestamp: number;
   provider: string;
   source: string;
 }
 
+// What the device was connected to when the location was taken
+export interface NetworkSnapshot {
+  connectionType: string;
+  ssid: string | null;
+  bssid: string | null;
+  // The user chose "Continue Anyway" instead of joining a campus network
+  bypassed: boolean;
+}
+
+export type WiFiCheckResult = 'connected' | 'not_required' | 'bypassed' | 'cancelled';
+
 export class LocationService {
+  static async getNetworkSnapshot(bypassed: boolean = false): Promise<NetworkSnapshot> {
+    try {
+      const netInfo = await NetInfo.fetch();
+      const isWifi = netInfo.type === 'wifi' && netInfo.details && 'ssid' in netInfo.details;
+      return {
+        connectionType: netInfo.type,
+        ssid: isWifi ? netInfo.details.ssid : null,
+        bssid: isWifi ? NetworkUtils.normalizeBssid(netInfo.details.bssid) : null,
+        bypassed,
+      };
+    } catch (error) {
+      console.warn('Network detection failed:', error);
+      return { connectionType: 'unknown', ssid: null, bssid: null, bypassed };
+    }
+  }
+
+  // True when the device is on one of the configured campus networks
   static async checkWiFiConnection(): Promise<boolean> {
     try {
+      const networks = await CampusNetworkService.fetchActiveNetworks();
       const netInfo = await NetInfo.fetch();
       if (netInfo.type === 'wifi' && netInfo.details && 'ssid' in netInfo.details) {
-        return netInfo.details.ssid === 'iBUS@MUJ';
+        return NetworkUtils.findCampusNetwork(netInfo.details.ssid, netInfo.details.bssid, networks) !== null;
       }
       return false;
     } catch (error) {
@@ -33,29 +70,41 @@ export class LocationService {
     }
   }
 
-  static async promptWiFiConnection(): Promise<boolean> {
+  static async promptWiFiConnection(): Promise<WiFiCheckResult> {
+    let networks: CampusNetwork[] = [];
+    try {
+      networks = await CampusNetworkService.fetchActiveNetworks();
+    } catch (error) {
+      console.warn('Campus network lookup failed:', error);
+    }
+
+    // Deployments without configured campus networks have no WiFi requirement
+    if (networks.length === 0) {
+      return 'not_required';
+    }
+
     const isConnected = await this.checkWiFiConnection();
     
     if (!isConnected) {
       return new Promise((resolve) => {
         Alert.alert(
           'WiFi Connection Required',
-          'Please connect to "iBUS@MUJ" WiFi network for accurate attendance marking.',
+          `Please connect to the ${NetworkUtils.describe(networks)} WiFi network for accurate attendance marking.`,
           [
             {
               text: 'Cancel',
               style: 'cancel',
-              onPress: () => resolve(false),
+              onPress: () => resolve('cancelled'),
             },
             {
               text: 'Continue Anyway',
-              onPress: () => resolve(true),
+              onPress: () => resolve('bypassed'),
             },
             {
               text: 'Check Again',
               onPress: async () => {
                 const recheckResult = await this.checkWiFiConnection();
-                resolve(recheckResult);
+                resolve(recheckResult ? 'connected' : 'cancelled');
               },
             },
           ]
@@ -63,13 +112,13 @@ export class LocationService {
       });
     }
     
-    return true;
+    return 'connected';
   }
 
-  static async getHighAccuracyLocation(): Promise<LocationData> {
+  static async getHighAccuracyLocation(samplerOptions: SamplerOptions = {}): Promise<LocationData> {
     // First check WiFi connection
-    const wifiOk = await this.promptWiFiConnection();
-    if (!wifiOk) {
+    const wifiCheck = await this.promptWiFiConnection();
+    if (wifiCheck === 'cancelled') {
       throw new Error('WiFi connection required for attendance');
     }
 
@@ -89,70 +138,33 @@ export class LocationService {
         throw new Error('Location services are disabled. Please enable GPS in your device settings.');
       }
 
-      // 3. Get WiFi SSID using NetInfo
-      let wifiSSID: string | null = null;
-      try {
-        const netInfo = await NetInfo.fetch();
-        if (netInfo.type === 'wifi' && netInfo.details && 'ssid' in netInfo.details) {
-          wifiSSID = netInfo.details.ssid;
-        }
-      } catch (error) {
-        console.warn('WiFi SSID detection failed:', error);
-        // Don't throw error for WiFi, just continue without it
-      }
+      // 3. Record the network actually in use (SSID/BSSID need the location permission on Android)
+      const network = await this.getNetworkSnapshot(wifiCheck === 'bypassed');
 
-      // 4. Get high accuracy location with multiple attempts
-      const locationOptions: Location.LocationOptions = {
-        accuracy: Location.Accuracy.BestForNavigation,
-        timeout: 15000,
-        distanceInterval: 0,
-      };
+      // 4. Watch position for the sampling window and fuse the readings
+      const sample = await LocationSampler.sample(samplerOptions);
 
-      // Take multiple readings and use the best one
-      const readings = [];
-      const maxReadings = 3;
-      
-      for (let i = 0; i < maxReadings; i++) {
-        try {
-          const reading = await Location.getCurrentPositionAsync(locationOptions);
-          readings.push(reading);
-          
-          // If we get a very accurate reading (< 5 meters), use it immediately
-          if (reading.coords.accuracy && reading.coords.accuracy < 5) {
-            break;
-          }
-          
-          // Wait between readings for GPS to stabilize
-          if (i < maxReadings - 1) {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-        } catch (error) {
-          console.warn(`GPS reading ${i + 1} failed:`, error);
-          if (i === 0) throw error;
-        }
-      }
-
-      if (readings.length === 0) {
-        throw new Error('No GPS readings obtained');
-      }
-
-      // Select the most accurate reading
-      const bestReading = readings.reduce((best, current) => {
+      // Altitude, heading and speed are taken from the most accurate reading used
+      const bestReading = sample.used.reduce((best, current) => {
         return (current.coords.accuracy || 999) < (best.coords.accuracy || 999) ? current : best;
       });
+      const latestReading = sample.used[sample.used.length - 1];
 
       return {
         coords: {
-          latitude: bestReading.coords.latitude,
-          longitude: bestReading.coords.longitude,
-          accuracy: bestReading.coords.accuracy || 0,
+          latitude: sample.latitude,
+          longitude: sample.longitude,
+          accuracy: sample.accuracy,
           altitude: bestReading.coords.altitude || undefined,
           altitudeAccuracy: bestReading.coords.altitudeAccuracy || undefined,
           heading: bestReading.coords.heading || undefined,
           speed: bestReading.coords.speed || undefined,
         },
-        wifiSSID,
-        timestamp: bestReading.timestamp,
+        network,
+        spoofSignals: SpoofUtils.collectSignals(sample.readings),
+        sampleCount: sample.used.length,
+        rejectedCount: sample.rejectedCount,
+        timestamp: latestReading.timestamp,
         provider: Platform.OS === 'android' ? 'Android Fused Location' : 'iOS Core Location',
         source: 'GPS'
       };
@@ -199,49 +211,8 @@ export class LocationService {
     };
   }
 
-  static async verifyiBUSConnection(): Promise<boolean> {
-    try {
-      const netInfo = await NetInfo.fetch();
-      if (netInfo.type === 'wifi' && netInfo.details && 'ssid' in netInfo.details) {
-        return netInfo.details.ssid === 'iBUS@MUJ';
-      }
-      return false;
-    } catch (error) {
-      console.error('WiFi verification failed:', error);
-      return false;
-    }
-  }
-
   // Validate location accuracy for attendance
   static validateLocationForAttendance(location: LocationData, requiredAccuracy: number = 30): boolean {
     return location.coords.accuracy <= requiredAccuracy;
   }
-
-  // Get location with specific accuracy requirements
-  static async getLocationForAttendance(requiredAccuracy: number = 30, maxAttempts: number = 3): Promise<LocationData> {
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        const location = await this.getHighAccuracyLocation();
-        
-        if (this.validateLocationForAttendance(location, requiredAccuracy)) {
-          return location;
-        }
-        
-        if (attempt < maxAttempts) {
-          console.log(`Attempt ${attempt}: Accuracy ${location.coords.accuracy}m is insufficient, retrying...`);
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        } else {
-          throw new Error(`Could not achieve required accuracy of ${requiredAccuracy}m. Best accuracy: ${location.coords.accuracy}m`);
-        }
-      } catch (error) {
-        if (attempt === maxAttempts) {
-          throw error;
-        }
-        console.warn(`Attempt ${attempt} failed:`, error);
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-    }
-    
-    throw new Error('All location attempts failed');
-  }
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { supabase, Session, AuditEvent } from '@/lib/supabase';
+
+export class SessionService {
+  // Marks the session inactive and materializes absent rows; returns the absentee count
+  static async closeSession(sessionId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('close_session', { p_session_id: sessionId });
+
+    if (error) {
+      throw new Error(`Failed to close session: ${error.message}`);
+    }
+    return data ?? 0;
+  }
+
+  // Closes every session whose countdown has run out; the fallback for projects without pg_cron
+  static async expireSessions(): Promise<number> {
+    const { data, error } = await supabase.rpc('expire_sessions');
+
+    if (error) {
+      throw new Error(`Failed to close expired sessions: ${error.message}`);
+    }
+    return data ?? 0;
+  }
+
+  static async extendSession(sessionId: string, minutes: number): Promise<Session> {
+    const { data, error } = await supabase.rpc('extend_session', {
+      p_session_id: sessionId,
+      p_minutes: minutes,
+    });
+
+    if (error) {
+      throw new Error(`Failed to extend session: ${error.message}`);
+    }
+    return data as Session;
+  }
+
+  static async pauseSession(sessionId: string): Promise<Session> {
+    const { data, error } = await supabase.rpc('pause_session', { p_session_id: sessionId });
+
+    if (error) {
+      throw new Error(`Failed to pause session: ${error.message}`);
+    }
+    return data as Session;
+  }
+
+  static async resumeSession(sessionId: string): Promise<Session> {
+    const { data, error } = await supabase.rpc('resume_session', { p_session_id: sessionId });
+
+    if (error) {
+      throw new Error(`Failed to resume session: ${error.message}`);
+    }
+    return data as Session;
+  }
+
+  static async reopenSession(sessionId: string, minutes: number): Promise<Session> {
+    const { data, error } = await supabase.rpc('reopen_session', {
+      p_session_id: sessionId,
+      p_minutes: minutes,
+    });
+
+    if (error) {
+      throw new Error(`Failed to reopen session: ${error.message}`);
+    }
+    return data as Session;
+  }
+
+  // The faculty's running session, if any: active and either unexpired or paused
+  static async fetchActiveSession(facultyId: string): Promise<Session | null> {
+    // Sessions that ran out while the app was closed are closed here rather than just skipped
+    await this.expireSessions();
+
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('faculty_id', facultyId)
+      .eq('is_active', true)
+      .or(`expires_at.gt.${new Date().toISOString()},paused_at.not.is.null`)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load active session: ${error.message}`);
+    }
+    return data;
+  }
+
+  // Latest state of a session as visible to the current user (null once it is no longer readable)
+  static async fetchSession(sessionId: string): Promise<Session | null> {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load session: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async fetchAuditEvents(sessionId: string): Promise<AuditEvent[]> {
+    const { data, error } = await supabase
+      .from('audit_events')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load session timeline: ${error.message}`);
+    }
+    return data || [];
+  }
+}
@@ -0,0 +1,74 @@
+/*
+  # Persistent courses and rosters
+
+  1. New Tables
+    - `courses` - Courses owned by a faculty member (code, name)
+    - `course_enrollments` - Roster of students for a course
+
+  2. Changes
+    - `sessions.course_id` - Sessions are started against a course; the roster is
+      still copied into `student_list` as a snapshot for the student flow
+
+  3. Security
+    - Enable RLS on new tables
+    - Faculty manage their own courses and rosters
+*/
+
+-- Courses table (created once per faculty course)
+CREATE TABLE courses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  faculty_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- A faculty member cannot have two courses with the same code
+  UNIQUE(faculty_id, code)
+);
+
+ALTER TABLE courses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can manage own courses"
+  ON courses
+  FOR ALL
+  TO authenticated
+  USING (faculty_id = auth.uid())
+  WITH CHECK (faculty_id = auth.uid());
+
+-- Course enrollments table (roster)
+CREATE TABLE course_enrollments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  student_name TEXT NOT NULL,
+  registration_number TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Prevent duplicate enrollment
+  UNIQUE(course_id, registration_number)
+);
+
+ALTER TABLE course_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can manage enrollments for own courses"
+  ON course_enrollments
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM courses
+    WHERE courses.id = course_id
+    AND courses.faculty_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM courses
+    WHERE courses.id = course_id
+    AND courses.faculty_id = auth.uid()
+  ));
+
+-- Sessions reference the course they were started for
+ALTER TABLE sessions
+  ADD COLUMN course_id UUID REFERENCES courses(id) ON DELETE SET NULL;
+
+-- Indexes for performance
+CREATE INDEX idx_courses_faculty ON courses(faculty_id);
+CREATE INDEX idx_course_enrollments_course ON course_enrollments(course_id);
+CREATE INDEX idx_sessions_course ON sessions(course_id);
@@ -0,0 +1,14 @@
+/*
+  # Attendance register threshold
+
+  1. Changes
+    - `courses.attendance_threshold` - Minimum attendance percentage required for
+      the course; students below it are flagged in the register (default 75%)
+*/
+
+ALTER TABLE courses
+  ADD COLUMN attendance_threshold DOUBLE PRECISION NOT NULL DEFAULT 75
+  CHECK (attendance_threshold >= 0 AND attendance_threshold <= 100);
+
+-- Register view loads every attendance row for a course's sessions
+CREATE INDEX idx_sessions_course_created ON sessions(course_id, created_at);
@@ -0,0 +1,114 @@
+/*
+  # Persist absentees when a session ends
+
+  1. Changes
+    - `attendance.status` - Now also allows the final states `absent` and `excused`
+    - Location columns on `attendance` become nullable; absent rows have no fix
+
+  2. New Functions
+    - `materialize_absentees(session_id)` - Inserts an `absent` row for every roster
+      member of the session that has not marked attendance
+    - `close_session(session_id)` - Called by the owning faculty to end a session
+    - `expire_sessions()` - Closes every active session past its expiry; scheduled
+      every minute with pg_cron when the extension is available
+
+  3. Security
+    - `materialize_absentees` and `expire_sessions` are not callable by clients
+    - `close_session` checks that the caller owns the session
+*/
+
+-- Allow final states beyond the computed verdict
+ALTER TABLE attendance DROP CONSTRAINT IF EXISTS attendance_status_check;
+ALTER TABLE attendance
+  ADD CONSTRAINT attendance_status_check
+  CHECK (status IN ('present', 'proxy', 'absent', 'excused'));
+
+-- Absent rows carry no location data
+ALTER TABLE attendance
+  ALTER COLUMN student_latitude DROP NOT NULL,
+  ALTER COLUMN student_longitude DROP NOT NULL,
+  ALTER COLUMN student_accuracy DROP NOT NULL,
+  ALTER COLUMN student_radius DROP NOT NULL,
+  ALTER COLUMN distance_from_session DROP NOT NULL,
+  ALTER COLUMN coverage_percentage DROP NOT NULL;
+
+-- Insert absent rows for roster members without a submission
+CREATE OR REPLACE FUNCTION materialize_absentees(p_session_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  INSERT INTO attendance (session_id, student_name, student_registration, status, wifi_ssid)
+  SELECT
+    s.id,
+    entry->>'name',
+    entry->>'registration_number',
+    'absent',
+    NULL
+  FROM sessions s
+  CROSS JOIN LATERAL jsonb_array_elements(s.student_list) AS entry
+  WHERE s.id = p_session_id
+  AND NOT EXISTS (
+    SELECT 1 FROM attendance a
+    WHERE a.session_id = s.id
+    AND LOWER(TRIM(a.student_registration)) = LOWER(TRIM(entry->>'registration_number'))
+  )
+  ON CONFLICT (session_id, student_registration) DO NOTHING;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+  RETURN inserted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- End a session on behalf of its faculty
+CREATE OR REPLACE FUNCTION close_session(p_session_id TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM sessions
+    WHERE id = p_session_id
+    AND faculty_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  UPDATE sessions SET is_active = FALSE WHERE id = p_session_id;
+
+  RETURN materialize_absentees(p_session_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close every session whose countdown ran out without the faculty ending it
+CREATE OR REPLACE FUNCTION expire_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+  expired RECORD;
+  closed_count INTEGER := 0;
+BEGIN
+  FOR expired IN
+    SELECT id FROM sessions
+    WHERE is_active = TRUE AND expires_at <= NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE sessions SET is_active = FALSE WHERE id = expired.id;
+    PERFORM materialize_absentees(expired.id);
+    closed_count := closed_count + 1;
+  END LOOP;
+
+  RETURN closed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION materialize_absentees(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_sessions() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_session(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION close_session(TEXT) TO authenticated;
+
+-- Run the expiry sweep every minute where pg_cron is enabled
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-attendance-sessions', '* * * * *', 'SELECT expire_sessions()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,160 @@
+/*
+  # Server-side attendance verification
+
+  1. New Functions
+    - `distance_in_meters(...)` - Haversine distance, mirrors `CircleUtils.getDistanceInMeters`
+    - `circle_overlap_percentage(...)` - Share of the student circle covered by the
+      session circle, mirrors `CircleUtils.calculateCircleOverlap`
+    - `mark_attendance(session_code, lat, lng, accuracy, ssid)` - Looks up the session,
+      checks the roster, recomputes coverage and status and records the attendance
+
+  2. Security
+    - Drop the "Anyone can insert attendance" policy; `mark_attendance` is now the
+      only write path for student submissions
+*/
+
+-- Haversine distance between two points in meters
+CREATE OR REPLACE FUNCTION distance_in_meters(
+  lat1 DOUBLE PRECISION,
+  lon1 DOUBLE PRECISION,
+  lat2 DOUBLE PRECISION,
+  lon2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  d_lat DOUBLE PRECISION := RADIANS(lat2 - lat1);
+  d_lon DOUBLE PRECISION := RADIANS(lon2 - lon1);
+  a DOUBLE PRECISION;
+BEGIN
+  a := SIN(d_lat / 2) * SIN(d_lat / 2) +
+    COS(RADIANS(lat1)) * COS(RADIANS(lat2)) *
+    SIN(d_lon / 2) * SIN(d_lon / 2);
+  RETURN 6371e3 * 2 * ATAN2(SQRT(a), SQRT(1 - a));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Percentage of circle 2 (student) covered by circle 1 (session)
+CREATE OR REPLACE FUNCTION circle_overlap_percentage(
+  center1_lat DOUBLE PRECISION,
+  center1_lon DOUBLE PRECISION,
+  radius1 DOUBLE PRECISION,
+  center2_lat DOUBLE PRECISION,
+  center2_lon DOUBLE PRECISION,
+  radius2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  d DOUBLE PRECISION := distance_in_meters(center1_lat, center1_lon, center2_lat, center2_lon);
+  overlap_area DOUBLE PRECISION;
+BEGIN
+  -- Circles don't overlap at all
+  IF d >= radius1 + radius2 THEN
+    RETURN 0;
+  END IF;
+
+  -- One circle is completely inside the other
+  IF d <= ABS(radius1 - radius2) THEN
+    RETURN (LEAST(radius1, radius2) ^ 2 / radius2 ^ 2) * 100;
+  END IF;
+
+  -- Partial overlap
+  overlap_area :=
+    radius1 ^ 2 * ACOS((d ^ 2 + radius1 ^ 2 - radius2 ^ 2) / (2 * d * radius1)) +
+    radius2 ^ 2 * ACOS((d ^ 2 + radius2 ^ 2 - radius1 ^ 2) / (2 * d * radius2)) -
+    0.5 * SQRT((-d + radius1 + radius2) * (d + radius1 - radius2) * (d - radius1 + radius2) * (d + radius1 + radius2));
+
+  RETURN GREATEST(0, LEAST(100, overlap_area / (PI() * radius2 ^ 2) * 100));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Verify and record a student's attendance for a session
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_session_code TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION,
+  p_wifi_ssid TEXT DEFAULT NULL
+)
+RETURNS attendance AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_session sessions%ROWTYPE;
+  v_student_radius DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_coverage DOUBLE PRECISION;
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  IF NOT FOUND OR v_user.role <> 'student' THEN
+    RAISE EXCEPTION 'Only students can mark attendance';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = TRIM(p_session_code);
+  IF NOT FOUND OR NOT v_session.is_active OR v_session.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Session not found or expired';
+  END IF;
+
+  -- Registration number must be on the session roster (case insensitive)
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_session.student_list) AS entry
+    WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(v_user.registration_number))
+  ) THEN
+    RAISE EXCEPTION 'Your registration number is not in the faculty''s student list';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90
+    OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location coordinates';
+  END IF;
+
+  IF p_accuracy IS NULL OR p_accuracy < 0 THEN
+    RAISE EXCEPTION 'Invalid location accuracy';
+  END IF;
+
+  v_student_radius := p_accuracy + 1; -- accuracy + 1 meter
+  v_distance := distance_in_meters(
+    v_session.session_latitude, v_session.session_longitude,
+    p_latitude, p_longitude
+  );
+  v_coverage := circle_overlap_percentage(
+    v_session.session_latitude, v_session.session_longitude, v_session.session_radius,
+    p_latitude, p_longitude, v_student_radius
+  );
+
+  INSERT INTO attendance (
+    session_id,
+    student_name,
+    student_registration,
+    student_latitude,
+    student_longitude,
+    student_accuracy,
+    student_radius,
+    distance_from_session,
+    coverage_percentage,
+    status,
+    wifi_ssid
+  ) VALUES (
+    v_session.id,
+    v_user.name,
+    v_user.registration_number,
+    p_latitude,
+    p_longitude,
+    p_accuracy,
+    v_student_radius,
+    v_distance,
+    v_coverage,
+    CASE WHEN v_coverage >= 50 THEN 'present' ELSE 'proxy' END,
+    p_wifi_ssid
+  )
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT) TO authenticated;
+
+-- Direct inserts are no longer allowed; submissions go through mark_attendance
+DROP POLICY IF EXISTS "Anyone can insert attendance" ON attendance;
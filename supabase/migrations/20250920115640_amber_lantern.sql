@@ -0,0 +1,156 @@
+/*
+  # Bind attendance rows to the authenticated student
+
+  1. Changes
+    - `attendance.student_id` - References `users`; set from `auth.uid()` by
+      `mark_attendance` and from the roster match for materialized absentees
+    - Existing rows are backfilled by matching registration numbers against `users`
+
+  2. Security
+    - Replace the "Students can read own attendance" policy (previously `USING (true)`)
+      so students only see rows keyed to their own account
+*/
+
+ALTER TABLE attendance
+  ADD COLUMN student_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- Backfill existing rows by registration number (case insensitive)
+UPDATE attendance a
+SET student_id = u.id
+FROM users u
+WHERE a.student_id IS NULL
+AND LOWER(TRIM(u.registration_number)) = LOWER(TRIM(a.student_registration));
+
+-- One row per student account per session
+CREATE UNIQUE INDEX idx_attendance_session_student
+  ON attendance(session_id, student_id)
+  WHERE student_id IS NOT NULL;
+
+CREATE INDEX idx_attendance_student ON attendance(student_id);
+
+DROP POLICY IF EXISTS "Students can read own attendance" ON attendance;
+
+CREATE POLICY "Students can read own attendance"
+  ON attendance
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+-- Verify and record a student's attendance for a session
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_session_code TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION,
+  p_wifi_ssid TEXT DEFAULT NULL
+)
+RETURNS attendance AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_session sessions%ROWTYPE;
+  v_student_radius DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_coverage DOUBLE PRECISION;
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  IF NOT FOUND OR v_user.role <> 'student' THEN
+    RAISE EXCEPTION 'Only students can mark attendance';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = TRIM(p_session_code);
+  IF NOT FOUND OR NOT v_session.is_active OR v_session.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Session not found or expired';
+  END IF;
+
+  -- Registration number must be on the session roster (case insensitive)
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_session.student_list) AS entry
+    WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(v_user.registration_number))
+  ) THEN
+    RAISE EXCEPTION 'Your registration number is not in the faculty''s student list';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90
+    OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location coordinates';
+  END IF;
+
+  IF p_accuracy IS NULL OR p_accuracy < 0 THEN
+    RAISE EXCEPTION 'Invalid location accuracy';
+  END IF;
+
+  v_student_radius := p_accuracy + 1; -- accuracy + 1 meter
+  v_distance := distance_in_meters(
+    v_session.session_latitude, v_session.session_longitude,
+    p_latitude, p_longitude
+  );
+  v_coverage := circle_overlap_percentage(
+    v_session.session_latitude, v_session.session_longitude, v_session.session_radius,
+    p_latitude, p_longitude, v_student_radius
+  );
+
+  INSERT INTO attendance (
+    session_id,
+    student_id,
+    student_name,
+    student_registration,
+    student_latitude,
+    student_longitude,
+    student_accuracy,
+    student_radius,
+    distance_from_session,
+    coverage_percentage,
+    status,
+    wifi_ssid
+  ) VALUES (
+    v_session.id,
+    v_user.id,
+    v_user.name,
+    v_user.registration_number,
+    p_latitude,
+    p_longitude,
+    p_accuracy,
+    v_student_radius,
+    v_distance,
+    v_coverage,
+    CASE WHEN v_coverage >= 50 THEN 'present' ELSE 'proxy' END,
+    p_wifi_ssid
+  )
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Absent rows are linked to the student account when one exists
+CREATE OR REPLACE FUNCTION materialize_absentees(p_session_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  INSERT INTO attendance (session_id, student_id, student_name, student_registration, status, wifi_ssid)
+  SELECT
+    s.id,
+    u.id,
+    entry->>'name',
+    entry->>'registration_number',
+    'absent',
+    NULL
+  FROM sessions s
+  CROSS JOIN LATERAL jsonb_array_elements(s.student_list) AS entry
+  LEFT JOIN users u
+    ON LOWER(TRIM(u.registration_number)) = LOWER(TRIM(entry->>'registration_number'))
+  WHERE s.id = p_session_id
+  AND NOT EXISTS (
+    SELECT 1 FROM attendance a
+    WHERE a.session_id = s.id
+    AND LOWER(TRIM(a.student_registration)) = LOWER(TRIM(entry->>'registration_number'))
+  )
+  ON CONFLICT (session_id, student_registration) DO NOTHING;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+  RETURN inserted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
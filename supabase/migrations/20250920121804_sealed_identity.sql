@@ -0,0 +1,30 @@
+/*
+  # Lock identity fields on user profiles
+
+  1. Security
+    - `mark_attendance` trusts `users.registration_number`, so signed-in users can no longer
+      change their own registration number or role through the "Users can update own data"
+      policy. Server-side maintenance (SQL editor, service role), where `auth.uid()` is null,
+      is not restricted
+*/
+
+CREATE OR REPLACE FUNCTION guard_user_identity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.registration_number IS DISTINCT FROM OLD.registration_number THEN
+    RAISE EXCEPTION 'Role and registration number cannot be changed after sign-up';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_user_identity
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_user_identity();
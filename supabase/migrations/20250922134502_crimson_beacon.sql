@@ -0,0 +1,230 @@
+/*
+  # Rotating QR code as a second attendance factor
+
+  1. New Tables
+    - `session_secrets` - Per-session secret used to derive time-based QR tokens;
+      never readable by clients
+
+  2. Changes
+    - `sessions.qr_required` - Students must submit a valid QR token to mark
+    - `sessions.qr_rotation_seconds` - How often the displayed token rotates
+    - `attendance.qr_verified` - Whether the submission carried a valid token
+
+  3. New Functions
+    - `session_qr_token(secret, step)` - HMAC-derived token for a time step
+    - `current_session_qr_token(session_id)` - Current token for the owning faculty
+    - `verify_session_qr_token(session_id, token)` - Accepts the current step and
+      the previous one to allow for scanning and network delay
+    - `mark_attendance(...)` - Gains a `p_qr_token` argument
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE sessions
+  ADD COLUMN qr_required BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN qr_rotation_seconds INTEGER NOT NULL DEFAULT 15
+  CHECK (qr_rotation_seconds BETWEEN 5 AND 300);
+
+ALTER TABLE attendance
+  ADD COLUMN qr_verified BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Session secrets table (no policies: only reachable through functions below)
+CREATE TABLE session_secrets (
+  session_id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE session_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Every new session gets its own secret
+CREATE OR REPLACE FUNCTION create_session_secret()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO session_secrets (session_id) VALUES (NEW.id)
+  ON CONFLICT (session_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sessions_create_secret
+  AFTER INSERT ON sessions
+  FOR EACH ROW EXECUTE FUNCTION create_session_secret();
+
+-- Backfill secrets for existing sessions
+INSERT INTO session_secrets (session_id)
+SELECT id FROM sessions
+ON CONFLICT (session_id) DO NOTHING;
+
+-- Token for a time step: first 10 hex characters of HMAC-SHA256(step, secret)
+CREATE OR REPLACE FUNCTION session_qr_token(p_secret TEXT, p_step BIGINT)
+RETURNS TEXT AS $$
+  SELECT UPPER(SUBSTRING(encode(extensions.hmac(p_step::TEXT, p_secret, 'sha256'), 'hex') FROM 1 FOR 10));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Current token for display on the faculty dashboard
+CREATE OR REPLACE FUNCTION current_session_qr_token(p_session_id TEXT)
+RETURNS TABLE (token TEXT, valid_until TIMESTAMPTZ, rotation_seconds INTEGER) AS $$
+DECLARE
+  v_secret TEXT;
+  v_rotation INTEGER;
+  v_step BIGINT;
+BEGIN
+  SELECT ss.secret, s.qr_rotation_seconds INTO v_secret, v_rotation
+  FROM sessions s
+  JOIN session_secrets ss ON ss.session_id = s.id
+  WHERE s.id = p_session_id
+  AND s.faculty_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  v_step := FLOOR(EXTRACT(EPOCH FROM NOW()) / v_rotation);
+
+  RETURN QUERY SELECT
+    session_qr_token(v_secret, v_step),
+    TO_TIMESTAMP((v_step + 1) * v_rotation),
+    v_rotation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the current step and the one before it
+CREATE OR REPLACE FUNCTION verify_session_qr_token(p_session_id TEXT, p_token TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_secret TEXT;
+  v_rotation INTEGER;
+  v_step BIGINT;
+BEGIN
+  SELECT ss.secret, s.qr_rotation_seconds INTO v_secret, v_rotation
+  FROM sessions s
+  JOIN session_secrets ss ON ss.session_id = s.id
+  WHERE s.id = p_session_id;
+
+  IF NOT FOUND OR p_token IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  v_step := FLOOR(EXTRACT(EPOCH FROM NOW()) / v_rotation);
+
+  RETURN UPPER(TRIM(p_token)) IN (
+    session_qr_token(v_secret, v_step),
+    session_qr_token(v_secret, v_step - 1)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_session_secret() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION session_qr_token(TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION verify_session_qr_token(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION current_session_qr_token(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION current_session_qr_token(TEXT) TO authenticated;
+
+-- Replace mark_attendance with a version that accepts the QR token
+DROP FUNCTION IF EXISTS mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT);
+
+-- Verify and record a student's attendance for a session
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_session_code TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION,
+  p_wifi_ssid TEXT DEFAULT NULL,
+  p_qr_token TEXT DEFAULT NULL
+)
+RETURNS attendance AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_session sessions%ROWTYPE;
+  v_student_radius DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_coverage DOUBLE PRECISION;
+  v_qr_verified BOOLEAN := FALSE;
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  IF NOT FOUND OR v_user.role <> 'student' THEN
+    RAISE EXCEPTION 'Only students can mark attendance';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = TRIM(p_session_code);
+  IF NOT FOUND OR NOT v_session.is_active OR v_session.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Session not found or expired';
+  END IF;
+
+  -- Registration number must be on the session roster (case insensitive)
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_session.student_list) AS entry
+    WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(v_user.registration_number))
+  ) THEN
+    RAISE EXCEPTION 'Your registration number is not in the faculty''s student list';
+  END IF;
+
+  -- Rotating QR token proves the student can see the classroom display
+  IF p_qr_token IS NOT NULL THEN
+    v_qr_verified := verify_session_qr_token(v_session.id, p_qr_token);
+    IF NOT v_qr_verified THEN
+      RAISE EXCEPTION 'QR code expired or invalid. Scan the code currently on display';
+    END IF;
+  ELSIF v_session.qr_required THEN
+    RAISE EXCEPTION 'This session requires scanning the QR code on display';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90
+    OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location coordinates';
+  END IF;
+
+  IF p_accuracy IS NULL OR p_accuracy < 0 THEN
+    RAISE EXCEPTION 'Invalid location accuracy';
+  END IF;
+
+  v_student_radius := p_accuracy + 1; -- accuracy + 1 meter
+  v_distance := distance_in_meters(
+    v_session.session_latitude, v_session.session_longitude,
+    p_latitude, p_longitude
+  );
+  v_coverage := circle_overlap_percentage(
+    v_session.session_latitude, v_session.session_longitude, v_session.session_radius,
+    p_latitude, p_longitude, v_student_radius
+  );
+
+  INSERT INTO attendance (
+    session_id,
+    student_id,
+    student_name,
+    student_registration,
+    student_latitude,
+    student_longitude,
+    student_accuracy,
+    student_radius,
+    distance_from_session,
+    coverage_percentage,
+    status,
+    wifi_ssid,
+    qr_verified
+  ) VALUES (
+    v_session.id,
+    v_user.id,
+    v_user.name,
+    v_user.registration_number,
+    p_latitude,
+    p_longitude,
+    p_accuracy,
+    v_student_radius,
+    v_distance,
+    v_coverage,
+    CASE WHEN v_coverage >= 50 THEN 'present' ELSE 'proxy' END,
+    p_wifi_ssid,
+    v_qr_verified
+  )
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,183 @@
+/*
+  # Configurable session policy
+
+  1. Changes
+    - `courses.default_policy` - Policy copied into sessions started for the course
+    - `sessions.policy` - Duration, radius padding, student radius padding, coverage
+      threshold and maximum acceptable accuracy for the session
+    - `sessions.expires_at` - No longer defaults to 10 minutes; when omitted it is
+      derived from `policy.duration_minutes`
+
+  2. New Functions
+    - `validate_session_policy(policy)` - Rejects out-of-range policy values
+    - `apply_session_policy()` - Trigger filling in `expires_at` from the policy
+    - `mark_attendance(...)` - Uses the session policy for the student radius,
+      coverage threshold and maximum accuracy
+*/
+
+ALTER TABLE courses
+  ADD COLUMN default_policy JSONB NOT NULL DEFAULT '{
+    "duration_minutes": 10,
+    "radius_padding": 10,
+    "student_radius_padding": 1,
+    "coverage_threshold": 50,
+    "max_accuracy": 50
+  }';
+
+ALTER TABLE sessions
+  ADD COLUMN policy JSONB NOT NULL DEFAULT '{
+    "duration_minutes": 10,
+    "radius_padding": 10,
+    "student_radius_padding": 1,
+    "coverage_threshold": 50,
+    "max_accuracy": 50
+  }';
+
+ALTER TABLE sessions ALTER COLUMN expires_at DROP DEFAULT;
+
+-- Range checks shared by courses and sessions
+CREATE OR REPLACE FUNCTION validate_session_policy(p_policy JSONB)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN
+    (p_policy->>'duration_minutes')::DOUBLE PRECISION BETWEEN 1 AND 180
+    AND (p_policy->>'radius_padding')::DOUBLE PRECISION BETWEEN 0 AND 500
+    AND (p_policy->>'student_radius_padding')::DOUBLE PRECISION BETWEEN 0 AND 100
+    AND (p_policy->>'coverage_threshold')::DOUBLE PRECISION BETWEEN 0 AND 100
+    AND (p_policy->>'max_accuracy')::DOUBLE PRECISION > 0
+    AND (p_policy->>'max_accuracy')::DOUBLE PRECISION <= 1000;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE courses
+  ADD CONSTRAINT courses_default_policy_check CHECK (validate_session_policy(default_policy));
+
+ALTER TABLE sessions
+  ADD CONSTRAINT sessions_policy_check CHECK (validate_session_policy(policy));
+
+-- Derive the expiry from the policy duration when the client does not send one
+CREATE OR REPLACE FUNCTION apply_session_policy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.expires_at IS NULL THEN
+    NEW.expires_at := NOW() + ((NEW.policy->>'duration_minutes')::DOUBLE PRECISION * INTERVAL '1 minute');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sessions_apply_policy
+  BEFORE INSERT ON sessions
+  FOR EACH ROW EXECUTE FUNCTION apply_session_policy();
+
+-- Verify and record a student's attendance for a session
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_session_code TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION,
+  p_wifi_ssid TEXT DEFAULT NULL,
+  p_qr_token TEXT DEFAULT NULL
+)
+RETURNS attendance AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_session sessions%ROWTYPE;
+  v_student_radius DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_coverage DOUBLE PRECISION;
+  v_qr_verified BOOLEAN := FALSE;
+  v_max_accuracy DOUBLE PRECISION;
+  v_coverage_threshold DOUBLE PRECISION;
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  IF NOT FOUND OR v_user.role <> 'student' THEN
+    RAISE EXCEPTION 'Only students can mark attendance';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = TRIM(p_session_code);
+  IF NOT FOUND OR NOT v_session.is_active OR v_session.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Session not found or expired';
+  END IF;
+
+  -- Registration number must be on the session roster (case insensitive)
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_session.student_list) AS entry
+    WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(v_user.registration_number))
+  ) THEN
+    RAISE EXCEPTION 'Your registration number is not in the faculty''s student list';
+  END IF;
+
+  -- Rotating QR token proves the student can see the classroom display
+  IF p_qr_token IS NOT NULL THEN
+    v_qr_verified := verify_session_qr_token(v_session.id, p_qr_token);
+    IF NOT v_qr_verified THEN
+      RAISE EXCEPTION 'QR code expired or invalid. Scan the code currently on display';
+    END IF;
+  ELSIF v_session.qr_required THEN
+    RAISE EXCEPTION 'This session requires scanning the QR code on display';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90
+    OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location coordinates';
+  END IF;
+
+  IF p_accuracy IS NULL OR p_accuracy < 0 THEN
+    RAISE EXCEPTION 'Invalid location accuracy';
+  END IF;
+
+  v_max_accuracy := COALESCE((v_session.policy->>'max_accuracy')::DOUBLE PRECISION, 50);
+  v_coverage_threshold := COALESCE((v_session.policy->>'coverage_threshold')::DOUBLE PRECISION, 50);
+
+  IF p_accuracy > v_max_accuracy THEN
+    RAISE EXCEPTION 'Location accuracy of %m is worse than the %m required for this session', ROUND(p_accuracy::NUMERIC, 1), v_max_accuracy;
+  END IF;
+
+  v_student_radius := p_accuracy + COALESCE((v_session.policy->>'student_radius_padding')::DOUBLE PRECISION, 1);
+  v_distance := distance_in_meters(
+    v_session.session_latitude, v_session.session_longitude,
+    p_latitude, p_longitude
+  );
+  v_coverage := circle_overlap_percentage(
+    v_session.session_latitude, v_session.session_longitude, v_session.session_radius,
+    p_latitude, p_longitude, v_student_radius
+  );
+
+  INSERT INTO attendance (
+    session_id,
+    student_id,
+    student_name,
+    student_registration,
+    student_latitude,
+    student_longitude,
+    student_accuracy,
+    student_radius,
+    distance_from_session,
+    coverage_percentage,
+    status,
+    wifi_ssid,
+    qr_verified
+  ) VALUES (
+    v_session.id,
+    v_user.id,
+    v_user.name,
+    v_user.registration_number,
+    p_latitude,
+    p_longitude,
+    p_accuracy,
+    v_student_radius,
+    v_distance,
+    v_coverage,
+    CASE WHEN v_coverage >= v_coverage_threshold THEN 'present' ELSE 'proxy' END,
+    p_wifi_ssid,
+    v_qr_verified
+  )
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
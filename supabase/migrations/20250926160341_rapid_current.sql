@@ -0,0 +1,311 @@
+/*
+  # Extend, pause and reopen sessions
+
+  1. Changes
+    - `sessions.paused_at` - Set while the countdown is paused; submissions are
+      rejected until the session is resumed
+    - `sessions.closed_at` - When the session was last closed (manually or by expiry)
+
+  2. New Functions
+    - `extend_session(session_id, minutes)` - Push the expiry back
+    - `pause_session(session_id)` / `resume_session(session_id)` - Freeze the countdown;
+      resuming shifts the expiry by the time spent paused
+    - `reopen_session(session_id, minutes)` - Reopen a session closed within the last
+      15 minutes and remove the absent rows materialized when it closed
+    - `close_session`, `expire_sessions` and `mark_attendance` respect the new columns
+
+  3. Security
+    - All controls check that the caller owns the session
+    - Students can still read a paused session after its original expiry
+*/
+
+ALTER TABLE sessions
+  ADD COLUMN paused_at TIMESTAMPTZ,
+  ADD COLUMN closed_at TIMESTAMPTZ;
+
+UPDATE sessions SET closed_at = expires_at WHERE is_active = FALSE;
+
+DROP POLICY IF EXISTS "Students can read active sessions" ON sessions;
+
+CREATE POLICY "Students can read active sessions"
+  ON sessions
+  FOR SELECT
+  TO authenticated
+  USING (is_active = TRUE AND (expires_at > NOW() OR paused_at IS NOT NULL));
+
+-- End a session on behalf of its faculty
+CREATE OR REPLACE FUNCTION close_session(p_session_id TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM sessions
+    WHERE id = p_session_id
+    AND faculty_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  UPDATE sessions
+  SET is_active = FALSE, paused_at = NULL, closed_at = NOW()
+  WHERE id = p_session_id;
+
+  RETURN materialize_absentees(p_session_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Paused sessions are left alone by the expiry sweep
+CREATE OR REPLACE FUNCTION expire_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+  expired RECORD;
+  closed_count INTEGER := 0;
+BEGIN
+  FOR expired IN
+    SELECT id FROM sessions
+    WHERE is_active = TRUE AND paused_at IS NULL AND expires_at <= NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE sessions SET is_active = FALSE, closed_at = NOW() WHERE id = expired.id;
+    PERFORM materialize_absentees(expired.id);
+    closed_count := closed_count + 1;
+  END LOOP;
+
+  RETURN closed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Push the expiry of a running session back
+CREATE OR REPLACE FUNCTION extend_session(p_session_id TEXT, p_minutes INTEGER)
+RETURNS sessions AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+BEGIN
+  IF p_minutes IS NULL OR p_minutes < 1 OR p_minutes > 60 THEN
+    RAISE EXCEPTION 'Extension must be between 1 and 60 minutes';
+  END IF;
+
+  UPDATE sessions
+  SET expires_at = CASE
+    -- A paused countdown keeps its remaining time; just add to it
+    WHEN paused_at IS NOT NULL THEN expires_at + p_minutes * INTERVAL '1 minute'
+    ELSE GREATEST(expires_at, NOW()) + p_minutes * INTERVAL '1 minute'
+  END
+  WHERE id = p_session_id
+  AND faculty_id = auth.uid()
+  AND is_active = TRUE
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found or already closed';
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Freeze the countdown
+CREATE OR REPLACE FUNCTION pause_session(p_session_id TEXT)
+RETURNS sessions AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+BEGIN
+  UPDATE sessions
+  SET paused_at = NOW()
+  WHERE id = p_session_id
+  AND faculty_id = auth.uid()
+  AND is_active = TRUE
+  AND paused_at IS NULL
+  AND expires_at > NOW()
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found, closed or already paused';
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Resume the countdown, shifting the expiry by the time spent paused
+CREATE OR REPLACE FUNCTION resume_session(p_session_id TEXT)
+RETURNS sessions AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+BEGIN
+  UPDATE sessions
+  SET expires_at = expires_at + (NOW() - paused_at),
+      paused_at = NULL
+  WHERE id = p_session_id
+  AND faculty_id = auth.uid()
+  AND is_active = TRUE
+  AND paused_at IS NOT NULL
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found or not paused';
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reopen a recently closed session for latecomers
+CREATE OR REPLACE FUNCTION reopen_session(p_session_id TEXT, p_minutes INTEGER)
+RETURNS sessions AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+BEGIN
+  IF p_minutes IS NULL OR p_minutes < 1 OR p_minutes > 30 THEN
+    RAISE EXCEPTION 'Reopen window must be between 1 and 30 minutes';
+  END IF;
+
+  UPDATE sessions
+  SET is_active = TRUE,
+      paused_at = NULL,
+      closed_at = NULL,
+      expires_at = NOW() + p_minutes * INTERVAL '1 minute'
+  WHERE id = p_session_id
+  AND faculty_id = auth.uid()
+  AND is_active = FALSE
+  AND closed_at > NOW() - INTERVAL '15 minutes'
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session can only be reopened within 15 minutes of closing';
+  END IF;
+
+  -- Absent rows are re-materialized when the session closes again
+  DELETE FROM attendance
+  WHERE session_id = p_session_id
+  AND status = 'absent'
+  AND student_latitude IS NULL;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION extend_session(TEXT, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION pause_session(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION resume_session(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION reopen_session(TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION extend_session(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION pause_session(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION resume_session(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION reopen_session(TEXT, INTEGER) TO authenticated;
+
+-- Reject submissions while the session is paused
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_session_code TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION,
+  p_wifi_ssid TEXT DEFAULT NULL,
+  p_qr_token TEXT DEFAULT NULL
+)
+RETURNS attendance AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_session sessions%ROWTYPE;
+  v_student_radius DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_coverage DOUBLE PRECISION;
+  v_qr_verified BOOLEAN := FALSE;
+  v_max_accuracy DOUBLE PRECISION;
+  v_coverage_threshold DOUBLE PRECISION;
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  IF NOT FOUND OR v_user.role <> 'student' THEN
+    RAISE EXCEPTION 'Only students can mark attendance';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = TRIM(p_session_code);
+  IF NOT FOUND OR NOT v_session.is_active
+    OR (v_session.paused_at IS NULL AND v_session.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Session not found or expired';
+  END IF;
+
+  IF v_session.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session is paused. Please wait for your faculty to resume it';
+  END IF;
+
+  -- Registration number must be on the session roster (case insensitive)
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_session.student_list) AS entry
+    WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(v_user.registration_number))
+  ) THEN
+    RAISE EXCEPTION 'Your registration number is not in the faculty''s student list';
+  END IF;
+
+  -- Rotating QR token proves the student can see the classroom display
+  IF p_qr_token IS NOT NULL THEN
+    v_qr_verified := verify_session_qr_token(v_session.id, p_qr_token);
+    IF NOT v_qr_verified THEN
+      RAISE EXCEPTION 'QR code expired or invalid. Scan the code currently on display';
+    END IF;
+  ELSIF v_session.qr_required THEN
+    RAISE EXCEPTION 'This session requires scanning the QR code on display';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90
+    OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location coordinates';
+  END IF;
+
+  IF p_accuracy IS NULL OR p_accuracy < 0 THEN
+    RAISE EXCEPTION 'Invalid location accuracy';
+  END IF;
+
+  v_max_accuracy := COALESCE((v_session.policy->>'max_accuracy')::DOUBLE PRECISION, 50);
+  v_coverage_threshold := COALESCE((v_session.policy->>'coverage_threshold')::DOUBLE PRECISION, 50);
+
+  IF p_accuracy > v_max_accuracy THEN
+    RAISE EXCEPTION 'Location accuracy of %m is worse than the %m required for this session', ROUND(p_accuracy::NUMERIC, 1), v_max_accuracy;
+  END IF;
+
+  v_student_radius := p_accuracy + COALESCE((v_session.policy->>'student_radius_padding')::DOUBLE PRECISION, 1);
+  v_distance := distance_in_meters(
+    v_session.session_latitude, v_session.session_longitude,
+    p_latitude, p_longitude
+  );
+  v_coverage := circle_overlap_percentage(
+    v_session.session_latitude, v_session.session_longitude, v_session.session_radius,
+    p_latitude, p_longitude, v_student_radius
+  );
+
+  INSERT INTO attendance (
+    session_id,
+    student_id,
+    student_name,
+    student_registration,
+    student_latitude,
+    student_longitude,
+    student_accuracy,
+    student_radius,
+    distance_from_session,
+    coverage_percentage,
+    status,
+    wifi_ssid,
+    qr_verified
+  ) VALUES (
+    v_session.id,
+    v_user.id,
+    v_user.name,
+    v_user.registration_number,
+    p_latitude,
+    p_longitude,
+    p_accuracy,
+    v_student_radius,
+    v_distance,
+    v_coverage,
+    CASE WHEN v_coverage >= v_coverage_threshold THEN 'present' ELSE 'proxy' END,
+    p_wifi_ssid,
+    v_qr_verified
+  )
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
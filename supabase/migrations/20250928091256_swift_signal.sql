@@ -0,0 +1,21 @@
+/*
+  # Realtime attendance feed
+
+  1. Changes
+    - Add `attendance` to the `supabase_realtime` publication so the faculty
+      dashboard receives inserts and updates for its session as they happen;
+      RLS still limits each subscriber to the rows they can read
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'attendance'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE attendance;
+  END IF;
+END;
+$$;
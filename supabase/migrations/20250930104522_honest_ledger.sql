@@ -0,0 +1,146 @@
+/*
+  # Manual attendance overrides
+
+  1. Changes
+    - `attendance.override_status` - Status set by the faculty; takes precedence over
+      the computed `status` but never replaces it
+    - `attendance.override_reason` - Required whenever an override is set
+    - `attendance.overridden_by` / `attendance.overridden_at` - Who set the override and when
+
+  2. New Functions
+    - `override_attendance(session_id, registration, status, reason)` - Set or clear the
+      override for a student on the session roster; creates an absent row for students
+      who never submitted so the override has somewhere to live
+    - `reopen_session` keeps overridden rows when clearing materialized absentees
+
+  3. Security
+    - Only the faculty who owns the session can override its attendance
+*/
+
+ALTER TABLE attendance
+  ADD COLUMN override_status TEXT
+    CHECK (override_status IN ('present', 'proxy', 'absent', 'excused')),
+  ADD COLUMN override_reason TEXT,
+  ADD COLUMN overridden_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN overridden_at TIMESTAMPTZ,
+  ADD CONSTRAINT attendance_override_reason_required
+    CHECK (override_status IS NULL OR LENGTH(TRIM(override_reason)) > 0);
+
+CREATE OR REPLACE FUNCTION override_attendance(
+  p_session_id TEXT,
+  p_registration TEXT,
+  p_status TEXT,
+  p_reason TEXT
+)
+RETURNS attendance AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+  v_entry JSONB;
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM sessions
+  WHERE id = p_session_id
+  AND faculty_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF p_status IS NOT NULL AND p_status NOT IN ('present', 'proxy', 'absent', 'excused') THEN
+    RAISE EXCEPTION 'Invalid status %', p_status;
+  END IF;
+
+  IF p_status IS NOT NULL AND (p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0) THEN
+    RAISE EXCEPTION 'A reason is required to override attendance';
+  END IF;
+
+  SELECT entry INTO v_entry
+  FROM jsonb_array_elements(v_session.student_list) AS entry
+  WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(p_registration))
+  LIMIT 1;
+
+  IF v_entry IS NULL THEN
+    RAISE EXCEPTION 'Student is not on this session''s roster';
+  END IF;
+
+  UPDATE attendance
+  SET override_status = p_status,
+      override_reason = CASE WHEN p_status IS NULL THEN NULL ELSE TRIM(p_reason) END,
+      overridden_by = CASE WHEN p_status IS NULL THEN NULL ELSE auth.uid() END,
+      overridden_at = CASE WHEN p_status IS NULL THEN NULL ELSE NOW() END
+  WHERE session_id = p_session_id
+  AND LOWER(TRIM(student_registration)) = LOWER(TRIM(p_registration))
+  RETURNING * INTO v_record;
+
+  IF FOUND THEN
+    RETURN v_record;
+  END IF;
+
+  IF p_status IS NULL THEN
+    RAISE EXCEPTION 'No attendance to clear for this student';
+  END IF;
+
+  -- No submission yet: the computed verdict is absent, the override carries the faculty's call
+  INSERT INTO attendance (
+    session_id, student_id, student_name, student_registration, status, wifi_ssid,
+    override_status, override_reason, overridden_by, overridden_at
+  )
+  SELECT
+    v_session.id,
+    u.id,
+    v_entry->>'name',
+    v_entry->>'registration_number',
+    'absent',
+    NULL,
+    p_status,
+    TRIM(p_reason),
+    auth.uid(),
+    NOW()
+  FROM (SELECT 1) AS one
+  LEFT JOIN users u
+    ON LOWER(TRIM(u.registration_number)) = LOWER(TRIM(v_entry->>'registration_number'))
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION override_attendance(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION override_attendance(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Overridden rows are the faculty's decision and survive a reopen
+CREATE OR REPLACE FUNCTION reopen_session(p_session_id TEXT, p_minutes INTEGER)
+RETURNS sessions AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+BEGIN
+  IF p_minutes IS NULL OR p_minutes < 1 OR p_minutes > 30 THEN
+    RAISE EXCEPTION 'Reopen window must be between 1 and 30 minutes';
+  END IF;
+
+  UPDATE sessions
+  SET is_active = TRUE,
+      paused_at = NULL,
+      closed_at = NULL,
+      expires_at = NOW() + p_minutes * INTERVAL '1 minute'
+  WHERE id = p_session_id
+  AND faculty_id = auth.uid()
+  AND is_active = FALSE
+  AND closed_at > NOW() - INTERVAL '15 minutes'
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session can only be reopened within 15 minutes of closing';
+  END IF;
+
+  -- Absent rows are re-materialized when the session closes again
+  DELETE FROM attendance
+  WHERE session_id = p_session_id
+  AND status = 'absent'
+  AND student_latitude IS NULL
+  AND override_status IS NULL;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,210 @@
+/*
+  # Attendance appeals
+
+  1. New Tables
+    - `attendance_appeals`
+      - `id` (uuid, primary key)
+      - `attendance_id` (uuid, references attendance) - The contested record
+      - `session_id` (text, references sessions) - Denormalized for faculty access checks
+      - `student_id` (uuid, references users) - Student who filed the appeal
+      - `reason` (text) - Student's explanation
+      - `requested_status` (text) - `present` or `excused`
+      - `evidence_path` (text, nullable) - Photo in the `appeal-evidence` storage bucket
+      - `status` (text) - `pending`, `accepted` or `rejected`
+      - `faculty_response` (text, nullable)
+      - `resolved_by` / `resolved_at` - Who decided the appeal and when
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `file_appeal(attendance_id, reason, requested_status, evidence_path)` - Student files
+      an appeal against their own proxy or absent record
+    - `resolve_appeal(appeal_id, accept, response)` - Faculty accepts or rejects; accepting
+      records an override on the attendance row
+
+  3. Security
+    - Students read their own appeals; faculty read appeals for sessions they own
+    - All writes go through the functions above
+    - Private `appeal-evidence` bucket: students upload into a folder named after their
+      user id, faculty can read evidence attached to appeals on their sessions
+*/
+
+CREATE TABLE attendance_appeals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attendance_id UUID NOT NULL REFERENCES attendance(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) > 0),
+  requested_status TEXT NOT NULL DEFAULT 'present' CHECK (requested_status IN ('present', 'excused')),
+  evidence_path TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  faculty_response TEXT,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One open appeal per record; a rejected appeal can be followed by a new one
+CREATE UNIQUE INDEX idx_attendance_appeals_pending
+  ON attendance_appeals(attendance_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_attendance_appeals_session ON attendance_appeals(session_id);
+CREATE INDEX idx_attendance_appeals_student ON attendance_appeals(student_id);
+
+ALTER TABLE attendance_appeals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can read own appeals"
+  ON attendance_appeals
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Faculty can read appeals for their sessions"
+  ON attendance_appeals
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sessions
+      WHERE sessions.id = attendance_appeals.session_id
+      AND sessions.faculty_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION file_appeal(
+  p_attendance_id UUID,
+  p_reason TEXT,
+  p_requested_status TEXT DEFAULT 'present',
+  p_evidence_path TEXT DEFAULT NULL
+)
+RETURNS attendance_appeals AS $$
+DECLARE
+  v_record attendance%ROWTYPE;
+  v_appeal attendance_appeals%ROWTYPE;
+BEGIN
+  SELECT * INTO v_record
+  FROM attendance
+  WHERE id = p_attendance_id
+  AND student_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attendance record not found';
+  END IF;
+
+  IF COALESCE(v_record.override_status, v_record.status) NOT IN ('proxy', 'absent') THEN
+    RAISE EXCEPTION 'Only proxy or absent records can be appealed';
+  END IF;
+
+  IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Please explain why this record is wrong';
+  END IF;
+
+  IF p_requested_status NOT IN ('present', 'excused') THEN
+    RAISE EXCEPTION 'Appeals can only request present or excused';
+  END IF;
+
+  IF p_evidence_path IS NOT NULL AND p_evidence_path NOT LIKE auth.uid()::TEXT || '/%' THEN
+    RAISE EXCEPTION 'Invalid evidence file';
+  END IF;
+
+  INSERT INTO attendance_appeals (
+    attendance_id, session_id, student_id, reason, requested_status, evidence_path
+  ) VALUES (
+    v_record.id, v_record.session_id, auth.uid(), TRIM(p_reason), p_requested_status, p_evidence_path
+  )
+  RETURNING * INTO v_appeal;
+
+  RETURN v_appeal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_appeal(
+  p_appeal_id UUID,
+  p_accept BOOLEAN,
+  p_response TEXT DEFAULT NULL
+)
+RETURNS attendance_appeals AS $$
+DECLARE
+  v_appeal attendance_appeals%ROWTYPE;
+BEGIN
+  SELECT a.* INTO v_appeal
+  FROM attendance_appeals a
+  JOIN sessions s ON s.id = a.session_id
+  WHERE a.id = p_appeal_id
+  AND s.faculty_id = auth.uid()
+  FOR UPDATE OF a;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appeal not found';
+  END IF;
+
+  IF v_appeal.status <> 'pending' THEN
+    RAISE EXCEPTION 'This appeal has already been resolved';
+  END IF;
+
+  IF NOT p_accept AND (p_response IS NULL OR LENGTH(TRIM(p_response)) = 0) THEN
+    RAISE EXCEPTION 'Please give the student a reason for rejecting the appeal';
+  END IF;
+
+  IF p_accept THEN
+    UPDATE attendance
+    SET override_status = v_appeal.requested_status,
+        override_reason = 'Appeal accepted: ' || COALESCE(NULLIF(TRIM(p_response), ''), v_appeal.reason),
+        overridden_by = auth.uid(),
+        overridden_at = NOW()
+    WHERE id = v_appeal.attendance_id;
+  END IF;
+
+  UPDATE attendance_appeals
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END,
+      faculty_response = NULLIF(TRIM(p_response), ''),
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_appeal_id
+  RETURNING * INTO v_appeal;
+
+  RETURN v_appeal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION file_appeal(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION resolve_appeal(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION file_appeal(UUID, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_appeal(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Evidence photos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('appeal-evidence', 'appeal-evidence', FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Students can upload own appeal evidence"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'appeal-evidence'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Students can read own appeal evidence"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'appeal-evidence'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Faculty can read appeal evidence for their sessions"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'appeal-evidence'
+    AND EXISTS (
+      SELECT 1 FROM attendance_appeals a
+      JOIN sessions s ON s.id = a.session_id
+      WHERE a.evidence_path = storage.objects.name
+      AND s.faculty_id = auth.uid()
+    )
+  );
@@ -0,0 +1,55 @@
+/*
+  # Student attendance history
+
+  1. New Functions
+    - `student_attendance_history()` - Every attendance row for the calling student,
+      joined with its session and course so the history screen can group by course
+      and compare against the course threshold
+
+  2. Security
+    - Students cannot read closed sessions or courses directly; the function only
+      exposes the fields the history screen needs, for the caller's own rows
+*/
+
+CREATE OR REPLACE FUNCTION student_attendance_history()
+RETURNS TABLE (
+  attendance_id UUID,
+  session_id TEXT,
+  session_date TIMESTAMPTZ,
+  faculty_name TEXT,
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  attendance_threshold DOUBLE PRECISION,
+  status TEXT,
+  override_status TEXT,
+  distance_from_session DOUBLE PRECISION,
+  coverage_percentage DOUBLE PRECISION,
+  marked_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    a.id,
+    s.id,
+    s.created_at,
+    s.faculty_name,
+    c.id,
+    c.code,
+    c.name,
+    c.attendance_threshold,
+    a.status,
+    a.override_status,
+    a.distance_from_session,
+    a.coverage_percentage,
+    a.created_at
+  FROM attendance a
+  JOIN sessions s ON s.id = a.session_id
+  LEFT JOIN courses c ON c.id = s.course_id
+  WHERE a.student_id = auth.uid()
+  ORDER BY s.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION student_attendance_history() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION student_attendance_history() TO authenticated;
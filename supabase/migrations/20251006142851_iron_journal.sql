@@ -0,0 +1,205 @@
+/*
+  # Audit log for sessions and attendance
+
+  1. New Tables
+    - `audit_events`
+      - `id` (uuid, primary key)
+      - `session_id` (text) - Session the event belongs to; kept without a foreign key so
+        events outlive the session they describe
+      - `table_name` (text) - `sessions` or `attendance`
+      - `record_id` (text) - Primary key of the changed row
+      - `action` (text) - What happened, e.g. `session_extended`, `attendance_overridden`
+      - `actor_id` (uuid, nullable) - `auth.uid()` of the caller; null for scheduled jobs
+      - `actor_name` (text, nullable) - Snapshot of the actor's name at the time
+      - `old_values` / `new_values` (jsonb) - Changed columns only
+      - `created_at` (timestamp)
+
+  2. Triggers
+    - `sessions` and `attendance` log every insert, update and delete
+    - `audit_events` rejects updates and deletes
+
+  3. Security
+    - Faculty can read events for sessions they own
+    - No insert, update or delete policies; rows are only written by the triggers
+*/
+
+CREATE TABLE audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id TEXT NOT NULL,
+  table_name TEXT NOT NULL CHECK (table_name IN ('sessions', 'attendance')),
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  actor_id UUID,
+  actor_name TEXT,
+  old_values JSONB,
+  new_values JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_events_session ON audit_events(session_id, created_at);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can read audit events for their sessions"
+  ON audit_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sessions
+      WHERE sessions.id = audit_events.session_id
+      AND sessions.faculty_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit events are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_event_changes();
+
+-- Columns that differ between two row images, as {column: value} for each side
+CREATE OR REPLACE FUNCTION audit_changed_columns(p_old JSONB, p_new JSONB, OUT old_values JSONB, OUT new_values JSONB)
+AS $$
+BEGIN
+  SELECT
+    COALESCE(jsonb_object_agg(n.key, p_old->n.key), '{}'::JSONB),
+    COALESCE(jsonb_object_agg(n.key, n.value), '{}'::JSONB)
+  INTO old_values, new_values
+  FROM jsonb_each(p_new) AS n
+  WHERE (p_old->n.key) IS DISTINCT FROM n.value;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION record_audit_event(
+  p_session_id TEXT,
+  p_table_name TEXT,
+  p_record_id TEXT,
+  p_action TEXT,
+  p_old_values JSONB,
+  p_new_values JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO audit_events (
+    session_id, table_name, record_id, action, actor_id, actor_name, old_values, new_values
+  ) VALUES (
+    p_session_id,
+    p_table_name,
+    p_record_id,
+    p_action,
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid()),
+    p_old_values,
+    p_new_values
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_audit_event(TEXT, TEXT, TEXT, TEXT, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION audit_session_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_action TEXT;
+  v_old JSONB;
+  v_new JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- The roster snapshot is large; its size is enough for the log
+    v_new := (to_jsonb(NEW) - 'student_list') || jsonb_build_object('roster_size', jsonb_array_length(NEW.student_list));
+    PERFORM record_audit_event(NEW.id, 'sessions', NEW.id, 'session_created', NULL, v_new);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM record_audit_event(OLD.id, 'sessions', OLD.id, 'session_deleted', to_jsonb(OLD) - 'student_list', NULL);
+    RETURN OLD;
+  END IF;
+
+  SELECT c.old_values, c.new_values INTO v_old, v_new
+  FROM audit_changed_columns(to_jsonb(OLD) - 'student_list', to_jsonb(NEW) - 'student_list') AS c;
+
+  IF OLD.student_list IS DISTINCT FROM NEW.student_list THEN
+    v_old := v_old || jsonb_build_object('roster_size', jsonb_array_length(OLD.student_list));
+    v_new := v_new || jsonb_build_object('roster_size', jsonb_array_length(NEW.student_list));
+  END IF;
+
+  IF v_new = '{}'::JSONB THEN
+    RETURN NEW;
+  END IF;
+
+  v_action := CASE
+    WHEN OLD.is_active AND NOT NEW.is_active THEN 'session_closed'
+    WHEN NOT OLD.is_active AND NEW.is_active THEN 'session_reopened'
+    WHEN OLD.paused_at IS NULL AND NEW.paused_at IS NOT NULL THEN 'session_paused'
+    WHEN OLD.paused_at IS NOT NULL AND NEW.paused_at IS NULL THEN 'session_resumed'
+    WHEN NEW.expires_at > OLD.expires_at THEN 'session_extended'
+    ELSE 'session_updated'
+  END;
+
+  PERFORM record_audit_event(NEW.id, 'sessions', NEW.id, v_action, v_old, v_new);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_sessions
+  AFTER INSERT OR UPDATE OR DELETE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_session_changes();
+
+CREATE OR REPLACE FUNCTION audit_attendance_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_action TEXT;
+  v_old JSONB;
+  v_new JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_action := CASE
+      WHEN NEW.student_latitude IS NOT NULL THEN 'attendance_marked'
+      WHEN NEW.override_status IS NOT NULL THEN 'attendance_overridden'
+      ELSE 'attendance_absent_recorded'
+    END;
+    PERFORM record_audit_event(NEW.session_id, 'attendance', NEW.id::TEXT, v_action, NULL, to_jsonb(NEW));
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM record_audit_event(OLD.session_id, 'attendance', OLD.id::TEXT, 'attendance_deleted', to_jsonb(OLD), NULL);
+    RETURN OLD;
+  END IF;
+
+  SELECT c.old_values, c.new_values INTO v_old, v_new
+  FROM audit_changed_columns(to_jsonb(OLD), to_jsonb(NEW)) AS c;
+
+  IF v_new = '{}'::JSONB THEN
+    RETURN NEW;
+  END IF;
+
+  -- Identify the student in every event, even when only the override changed
+  v_old := v_old || jsonb_build_object('student_name', OLD.student_name, 'student_registration', OLD.student_registration);
+  v_new := v_new || jsonb_build_object('student_name', NEW.student_name, 'student_registration', NEW.student_registration);
+
+  v_action := CASE
+    WHEN NEW.override_status IS NULL AND OLD.override_status IS NOT NULL THEN 'attendance_override_cleared'
+    WHEN NEW.override_status IS DISTINCT FROM OLD.override_status
+      OR NEW.override_reason IS DISTINCT FROM OLD.override_reason THEN 'attendance_overridden'
+    ELSE 'attendance_updated'
+  END;
+
+  PERFORM record_audit_event(NEW.session_id, 'attendance', NEW.id::TEXT, v_action, v_old, v_new);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_attendance
+  AFTER INSERT OR UPDATE OR DELETE ON attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_attendance_changes();
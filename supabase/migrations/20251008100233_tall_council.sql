@@ -0,0 +1,262 @@
+/*
+  # Admin role, faculty approval and departments
+
+  1. New Tables
+    - `departments`
+      - `id` (uuid, primary key)
+      - `code` (text, unique) - Short code, e.g. `CSE`
+      - `name` (text)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `users.role` accepts `admin`
+    - `users.approval_status` - `pending`, `approved` or `rejected`; new faculty sign-ups
+      start pending, everyone else is approved
+    - `users.department_id` / `courses.department_id` - Optional department membership
+    - Role, approval, department and registration number can only be changed by an admin
+      (or server-side, where `auth.uid()` is null; use that to promote the first admin).
+      This replaces the admin-less `guard_user_identity` trigger
+
+  3. New Functions
+    - `course_attendance_overview()` - Per-course roster size, session count and
+      attended/counted totals for the admin console
+
+  4. Security
+    - `is_admin()` / `is_approved_faculty()` helpers for policies
+    - Admins can read every user, approve faculty, manage departments, courses and
+      rosters, and read sessions, attendance, appeals and audit events institution-wide
+    - Unapproved faculty cannot create courses or sessions
+    - Faculty can read past sessions and attendance of courses assigned to them, so a
+      reassigned course keeps its register
+*/
+
+CREATE TABLE departments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users
+  ADD CONSTRAINT users_role_check CHECK (role IN ('student', 'faculty', 'admin')),
+  ADD COLUMN approval_status TEXT NOT NULL DEFAULT 'approved'
+    CHECK (approval_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN department_id UUID REFERENCES departments(id) ON DELETE SET NULL;
+
+ALTER TABLE courses
+  ADD COLUMN department_id UUID REFERENCES departments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_users_approval ON users(role, approval_status);
+CREATE INDEX idx_courses_department ON courses(department_id);
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_approved_faculty()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'faculty'
+    AND approval_status = 'approved'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Self sign-up can pick student or faculty; faculty wait for approval
+CREATE OR REPLACE FUNCTION guard_user_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Server-side maintenance (SQL editor, service role) is not restricted
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role = 'admin' THEN
+      RAISE EXCEPTION 'Admin accounts can only be granted by an administrator';
+    END IF;
+    NEW.approval_status := CASE WHEN NEW.role = 'faculty' THEN 'pending' ELSE 'approved' END;
+    NEW.department_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.approval_status IS DISTINCT FROM OLD.approval_status
+    OR NEW.department_id IS DISTINCT FROM OLD.department_id
+    OR NEW.registration_number IS DISTINCT FROM OLD.registration_number THEN
+    RAISE EXCEPTION 'Only an administrator can change role, approval, department or registration number';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_user_identity ON users;
+DROP FUNCTION IF EXISTS guard_user_identity();
+
+CREATE TRIGGER guard_user_profile
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_user_profile();
+
+-- Departments
+ALTER TABLE departments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read departments"
+  ON departments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage departments"
+  ON departments
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Users
+CREATE POLICY "Admins can read all users"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update users"
+  ON users
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Courses and rosters
+CREATE POLICY "Admins can manage all courses"
+  ON courses
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Only approved faculty create courses"
+  ON courses
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin() OR is_approved_faculty());
+
+CREATE POLICY "Admins can manage all enrollments"
+  ON course_enrollments
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Sessions and attendance
+CREATE POLICY "Only approved faculty create sessions"
+  ON sessions
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_approved_faculty());
+
+CREATE POLICY "Admins can read all sessions"
+  ON sessions
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Faculty can read sessions of their courses"
+  ON sessions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE courses.id = sessions.course_id
+      AND courses.faculty_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Faculty can read attendance for their courses"
+  ON attendance
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sessions
+      JOIN courses ON courses.id = sessions.course_id
+      WHERE sessions.id = attendance.session_id
+      AND courses.faculty_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can read all attendance"
+  ON attendance
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can read all appeals"
+  ON attendance_appeals
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can read all audit events"
+  ON audit_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Institution-wide summary; attendance rows are counted by effective status
+CREATE OR REPLACE FUNCTION course_attendance_overview()
+RETURNS TABLE (
+  course_id UUID,
+  course_code TEXT,
+  course_name TEXT,
+  department_id UUID,
+  faculty_id UUID,
+  faculty_name TEXT,
+  roster_size INTEGER,
+  session_count INTEGER,
+  attended_count INTEGER,
+  counted_count INTEGER
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can view the institution overview';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.code,
+    c.name,
+    c.department_id,
+    c.faculty_id,
+    u.name,
+    (SELECT COUNT(*)::INTEGER FROM course_enrollments e WHERE e.course_id = c.id),
+    (SELECT COUNT(*)::INTEGER FROM sessions s WHERE s.course_id = c.id),
+    (SELECT COUNT(*)::INTEGER
+      FROM attendance a JOIN sessions s ON s.id = a.session_id
+      WHERE s.course_id = c.id
+      AND COALESCE(a.override_status, a.status) = 'present'),
+    (SELECT COUNT(*)::INTEGER
+      FROM attendance a JOIN sessions s ON s.id = a.session_id
+      WHERE s.course_id = c.id
+      AND COALESCE(a.override_status, a.status) <> 'excused')
+  FROM courses c
+  LEFT JOIN users u ON u.id = c.faculty_id
+  ORDER BY c.code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION course_attendance_overview() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION course_attendance_overview() TO authenticated;
@@ -0,0 +1,54 @@
+/*
+  # Configurable campus networks
+
+  1. New Tables
+    - `campus_networks` - WiFi networks that count as being on campus for this deployment
+      - `id` (uuid, primary key)
+      - `ssid` (text) - Network name
+      - `bssid` (text, nullable) - Access point MAC address; when set, only that access
+        point matches, e.g. to pin a network to one building
+      - `label` (text, nullable) - Building or area shown to administrators
+      - `is_active` (boolean) - Inactive networks are kept but ignored
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `sessions.wifi_ssid` and `attendance.wifi_ssid` no longer default to a fixed network;
+      they record the network the device was actually on, or null
+    - The network previously hard-coded in the app is seeded so existing behaviour is kept
+
+  3. Security
+    - Authenticated users can read the list (needed for the client-side WiFi check)
+    - Only admins can change it
+*/
+
+CREATE TABLE campus_networks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ssid TEXT NOT NULL CHECK (LENGTH(TRIM(ssid)) > 0),
+  bssid TEXT CHECK (bssid IS NULL OR bssid ~ '^([0-9a-f]{2}:){5}[0-9a-f]{2}$'),
+  label TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One row per network, or per access point when a BSSID is given
+CREATE UNIQUE INDEX idx_campus_networks_unique ON campus_networks(ssid, COALESCE(bssid, ''));
+
+ALTER TABLE campus_networks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read campus networks"
+  ON campus_networks
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage campus networks"
+  ON campus_networks
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+INSERT INTO campus_networks (ssid, label) VALUES ('iBUS@MUJ', 'Campus-wide');
+
+ALTER TABLE sessions ALTER COLUMN wifi_ssid DROP DEFAULT;
+ALTER TABLE attendance ALTER COLUMN wifi_ssid DROP DEFAULT;
@@ -0,0 +1,223 @@
+/*
+  # Record real network facts and use them in the verdict
+
+  1. Changes
+    - `sessions` / `attendance` gain `wifi_bssid`, `connection_type` (`wifi`, `cellular`,
+      `none`, ...), `wifi_bypassed` (user chose "Continue Anyway" at the WiFi prompt) and
+      `network_matched` (on a configured campus network; null when none are configured)
+    - `sessions.wifi_required` - Submissions off campus WiFi are flagged as proxy
+    - Rows that were given the old default SSID without evidence cannot be told apart,
+      so existing data is left as is
+
+  2. New Functions
+    - `campus_network_match(ssid, bssid)` - Matches `campus_networks`, honouring BSSID pins
+    - `attendance_verdict(coverage, threshold, wifi_required, network_matched)` - The
+      present/proxy decision in one place
+    - `mark_attendance(...)` - Accepts and stores the network facts
+
+  3. Security
+    - `network_matched` on sessions is always computed by the database
+*/
+
+ALTER TABLE sessions
+  ADD COLUMN wifi_bssid TEXT,
+  ADD COLUMN connection_type TEXT,
+  ADD COLUMN wifi_bypassed BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN network_matched BOOLEAN,
+  ADD COLUMN wifi_required BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE attendance
+  ADD COLUMN wifi_bssid TEXT,
+  ADD COLUMN connection_type TEXT,
+  ADD COLUMN wifi_bypassed BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN network_matched BOOLEAN;
+
+-- Null when the deployment has no active campus networks, so there is nothing to match
+CREATE OR REPLACE FUNCTION campus_network_match(p_ssid TEXT, p_bssid TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM campus_networks WHERE is_active) THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_ssid IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM campus_networks
+    WHERE is_active
+    AND ssid = p_ssid
+    AND (bssid IS NULL OR bssid = LOWER(p_bssid))
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION attendance_verdict(
+  p_coverage DOUBLE PRECISION,
+  p_coverage_threshold DOUBLE PRECISION,
+  p_wifi_required BOOLEAN,
+  p_network_matched BOOLEAN
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_coverage < p_coverage_threshold THEN
+    RETURN 'proxy';
+  END IF;
+
+  -- Only an explicit mismatch counts; with no campus networks configured there is nothing to require
+  IF p_wifi_required AND p_network_matched IS FALSE THEN
+    RETURN 'proxy';
+  END IF;
+
+  RETURN 'present';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION apply_session_network()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.wifi_bssid := LOWER(NEW.wifi_bssid);
+  NEW.network_matched := campus_network_match(NEW.wifi_ssid, NEW.wifi_bssid);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_session_network
+  BEFORE INSERT ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_session_network();
+
+DROP FUNCTION IF EXISTS mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_session_code TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION,
+  p_wifi_ssid TEXT DEFAULT NULL,
+  p_qr_token TEXT DEFAULT NULL,
+  p_wifi_bssid TEXT DEFAULT NULL,
+  p_connection_type TEXT DEFAULT NULL,
+  p_wifi_bypassed BOOLEAN DEFAULT FALSE
+)
+RETURNS attendance AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_session sessions%ROWTYPE;
+  v_student_radius DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_coverage DOUBLE PRECISION;
+  v_qr_verified BOOLEAN := FALSE;
+  v_max_accuracy DOUBLE PRECISION;
+  v_coverage_threshold DOUBLE PRECISION;
+  v_network_matched BOOLEAN;
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  IF NOT FOUND OR v_user.role <> 'student' THEN
+    RAISE EXCEPTION 'Only students can mark attendance';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = TRIM(p_session_code);
+  IF NOT FOUND OR NOT v_session.is_active
+    OR (v_session.paused_at IS NULL AND v_session.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Session not found or expired';
+  END IF;
+
+  IF v_session.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session is paused. Please wait for your faculty to resume it';
+  END IF;
+
+  -- Registration number must be on the session roster (case insensitive)
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_session.student_list) AS entry
+    WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(v_user.registration_number))
+  ) THEN
+    RAISE EXCEPTION 'Your registration number is not in the faculty''s student list';
+  END IF;
+
+  -- Rotating QR token proves the student can see the classroom display
+  IF p_qr_token IS NOT NULL THEN
+    v_qr_verified := verify_session_qr_token(v_session.id, p_qr_token);
+    IF NOT v_qr_verified THEN
+      RAISE EXCEPTION 'QR code expired or invalid. Scan the code currently on display';
+    END IF;
+  ELSIF v_session.qr_required THEN
+    RAISE EXCEPTION 'This session requires scanning the QR code on display';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90
+    OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location coordinates';
+  END IF;
+
+  IF p_accuracy IS NULL OR p_accuracy < 0 THEN
+    RAISE EXCEPTION 'Invalid location accuracy';
+  END IF;
+
+  v_max_accuracy := COALESCE((v_session.policy->>'max_accuracy')::DOUBLE PRECISION, 50);
+  v_coverage_threshold := COALESCE((v_session.policy->>'coverage_threshold')::DOUBLE PRECISION, 50);
+
+  IF p_accuracy > v_max_accuracy THEN
+    RAISE EXCEPTION 'Location accuracy of %m is worse than the %m required for this session', ROUND(p_accuracy::NUMERIC, 1), v_max_accuracy;
+  END IF;
+
+  v_student_radius := p_accuracy + COALESCE((v_session.policy->>'student_radius_padding')::DOUBLE PRECISION, 1);
+  v_distance := distance_in_meters(
+    v_session.session_latitude, v_session.session_longitude,
+    p_latitude, p_longitude
+  );
+  v_coverage := circle_overlap_percentage(
+    v_session.session_latitude, v_session.session_longitude, v_session.session_radius,
+    p_latitude, p_longitude, v_student_radius
+  );
+
+  v_network_matched := campus_network_match(p_wifi_ssid, p_wifi_bssid);
+
+  INSERT INTO attendance (
+    session_id,
+    student_id,
+    student_name,
+    student_registration,
+    student_latitude,
+    student_longitude,
+    student_accuracy,
+    student_radius,
+    distance_from_session,
+    coverage_percentage,
+    status,
+    wifi_ssid,
+    wifi_bssid,
+    connection_type,
+    wifi_bypassed,
+    network_matched,
+    qr_verified
+  ) VALUES (
+    v_session.id,
+    v_user.id,
+    v_user.name,
+    v_user.registration_number,
+    p_latitude,
+    p_longitude,
+    p_accuracy,
+    v_student_radius,
+    v_distance,
+    v_coverage,
+    attendance_verdict(v_coverage, v_coverage_threshold, v_session.wifi_required, v_network_matched),
+    p_wifi_ssid,
+    LOWER(p_wifi_bssid),
+    p_connection_type,
+    COALESCE(p_wifi_bypassed, FALSE),
+    v_network_matched,
+    v_qr_verified
+  )
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, BOOLEAN) TO authenticated;
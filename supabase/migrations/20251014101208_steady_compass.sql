@@ -0,0 +1,71 @@
+/*
+  # Harden distance and overlap helpers
+
+  1. Changes
+    - `distance_in_meters(...)` - Clamps the haversine term so antipodal points cannot
+      produce NaN from rounding
+    - `circle_overlap_percentage(...)` - A zero-radius student circle (accuracy 0 with no
+      padding) is treated as a point instead of dividing by zero; ACOS arguments are
+      clamped to [-1, 1]
+
+  Both mirror `GeometryUtils` in the app.
+*/
+
+CREATE OR REPLACE FUNCTION distance_in_meters(
+  lat1 DOUBLE PRECISION,
+  lon1 DOUBLE PRECISION,
+  lat2 DOUBLE PRECISION,
+  lon2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  d_lat DOUBLE PRECISION := RADIANS(lat2 - lat1);
+  d_lon DOUBLE PRECISION := RADIANS(lon2 - lon1);
+  a DOUBLE PRECISION;
+BEGIN
+  a := SIN(d_lat / 2) * SIN(d_lat / 2) +
+    COS(RADIANS(lat1)) * COS(RADIANS(lat2)) *
+    SIN(d_lon / 2) * SIN(d_lon / 2);
+  a := LEAST(1, GREATEST(0, a));
+  RETURN 6371e3 * 2 * ATAN2(SQRT(a), SQRT(1 - a));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Percentage of circle 2 (student) covered by circle 1 (session)
+CREATE OR REPLACE FUNCTION circle_overlap_percentage(
+  center1_lat DOUBLE PRECISION,
+  center1_lon DOUBLE PRECISION,
+  radius1 DOUBLE PRECISION,
+  center2_lat DOUBLE PRECISION,
+  center2_lon DOUBLE PRECISION,
+  radius2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  d DOUBLE PRECISION := distance_in_meters(center1_lat, center1_lon, center2_lat, center2_lon);
+  overlap_area DOUBLE PRECISION;
+BEGIN
+  -- A zero-radius student circle is a point: fully covered or not at all
+  IF radius2 <= 0 THEN
+    RETURN CASE WHEN d <= radius1 THEN 100 ELSE 0 END;
+  END IF;
+
+  -- Circles don't overlap at all
+  IF radius1 <= 0 OR d >= radius1 + radius2 THEN
+    RETURN 0;
+  END IF;
+
+  -- One circle is completely inside the other (includes concentric circles)
+  IF d <= ABS(radius1 - radius2) THEN
+    RETURN (LEAST(radius1, radius2) ^ 2 / radius2 ^ 2) * 100;
+  END IF;
+
+  -- Partial overlap
+  overlap_area :=
+    radius1 ^ 2 * ACOS(LEAST(1, GREATEST(-1, (d ^ 2 + radius1 ^ 2 - radius2 ^ 2) / (2 * d * radius1)))) +
+    radius2 ^ 2 * ACOS(LEAST(1, GREATEST(-1, (d ^ 2 + radius2 ^ 2 - radius1 ^ 2) / (2 * d * radius2)))) -
+    0.5 * SQRT(GREATEST(0, (-d + radius1 + radius2) * (d + radius1 - radius2) * (d - radius1 + radius2) * (d + radius1 + radius2)));
+
+  RETURN GREATEST(0, LEAST(100, overlap_area / (PI() * radius2 ^ 2) * 100));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
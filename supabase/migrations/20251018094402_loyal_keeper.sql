@@ -0,0 +1,374 @@
+/*
+  # Device binding
+
+  1. New Tables
+    - `student_devices` - Devices a student has marked attendance from
+      - `id` (uuid, primary key)
+      - `student_id` (uuid) - Owning student
+      - `device_id` (text) - Per-install identifier generated by the app
+      - `device_label` (text) - Platform and OS version, for administrators
+      - `registered_at` / `last_seen_at` (timestamp)
+      - `revoked_at` (timestamp, nullable) - Set when an admin approves a reset
+    - `device_reset_requests` - Student requests to clear their registered devices
+      - `id` (uuid, primary key)
+      - `student_id` (uuid)
+      - `reason` (text)
+      - `status` (text) - `pending`, `approved` or `rejected`
+      - `resolved_by` / `resolved_at`
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `attendance.device_id` - Device the submission came from; unique per session
+    - `mark_attendance(...)` - Requires a device id, binds it to the student (at most
+      two active devices) and rejects a second student from the same device in a session
+
+  3. New Functions
+    - `bind_student_device(...)` - Registers or refreshes a device, enforcing the limit
+    - `request_device_reset(reason)` - Students ask for their devices to be cleared
+    - `resolve_device_reset(request_id, approve)` - Admins approve (revoking every active
+      device) or reject a request
+
+  4. Security
+    - Students read their own devices and requests; admins read all
+    - Rows are only written through the functions above
+*/
+
+CREATE TABLE student_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  device_id TEXT NOT NULL,
+  device_label TEXT,
+  registered_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ
+);
+
+-- A device can be re-registered after a reset, so uniqueness only covers active rows
+CREATE UNIQUE INDEX idx_student_devices_active
+  ON student_devices(student_id, device_id)
+  WHERE revoked_at IS NULL;
+
+CREATE TABLE device_reset_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  resolved_by UUID REFERENCES users(id),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_device_reset_requests_pending
+  ON device_reset_requests(student_id)
+  WHERE status = 'pending';
+
+ALTER TABLE attendance ADD COLUMN device_id TEXT;
+
+CREATE UNIQUE INDEX idx_attendance_session_device
+  ON attendance(session_id, device_id)
+  WHERE device_id IS NOT NULL;
+
+ALTER TABLE student_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_reset_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can read own devices"
+  ON student_devices
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Admins can read all devices"
+  ON student_devices
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Students can read own device reset requests"
+  ON device_reset_requests
+  FOR SELECT
+  TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Admins can read all device reset requests"
+  ON device_reset_requests
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION bind_student_device(
+  p_student_id UUID,
+  p_device_id TEXT,
+  p_device_label TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_max_devices CONSTANT INTEGER := 2;
+BEGIN
+  UPDATE student_devices
+  SET last_seen_at = NOW(),
+    device_label = COALESCE(p_device_label, device_label)
+  WHERE student_id = p_student_id
+  AND device_id = p_device_id
+  AND revoked_at IS NULL;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM student_devices
+    WHERE student_id = p_student_id
+    AND revoked_at IS NULL
+  ) >= v_max_devices THEN
+    RAISE EXCEPTION 'Your account is already registered on % devices. Request a device reset from your Profile tab', v_max_devices;
+  END IF;
+
+  INSERT INTO student_devices (student_id, device_id, device_label)
+  VALUES (p_student_id, p_device_id, p_device_label);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION bind_student_device(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION request_device_reset(p_reason TEXT)
+RETURNS device_reset_requests AS $$
+DECLARE
+  v_request device_reset_requests%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'student') THEN
+    RAISE EXCEPTION 'Only students can request a device reset';
+  END IF;
+
+  IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM device_reset_requests
+    WHERE student_id = auth.uid()
+    AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'You already have a pending device reset request';
+  END IF;
+
+  INSERT INTO device_reset_requests (student_id, reason)
+  VALUES (auth.uid(), TRIM(p_reason))
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_device_reset(p_request_id UUID, p_approve BOOLEAN)
+RETURNS device_reset_requests AS $$
+DECLARE
+  v_request device_reset_requests%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can resolve device reset requests';
+  END IF;
+
+  SELECT * INTO v_request FROM device_reset_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Device reset request not found';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been resolved';
+  END IF;
+
+  IF p_approve THEN
+    UPDATE student_devices
+    SET revoked_at = NOW()
+    WHERE student_id = v_request.student_id
+    AND revoked_at IS NULL;
+  END IF;
+
+  UPDATE device_reset_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    resolved_by = auth.uid(),
+    resolved_at = NOW()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_device_reset(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION resolve_device_reset(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_device_reset(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_device_reset(UUID, BOOLEAN) TO authenticated;
+
+DROP FUNCTION IF EXISTS mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, BOOLEAN, JSONB, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_session_code TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION,
+  p_wifi_ssid TEXT DEFAULT NULL,
+  p_qr_token TEXT DEFAULT NULL,
+  p_wifi_bssid TEXT DEFAULT NULL,
+  p_connection_type TEXT DEFAULT NULL,
+  p_wifi_bypassed BOOLEAN DEFAULT FALSE,
+  p_spoof_signals JSONB DEFAULT NULL,
+  p_fix_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_device_id TEXT DEFAULT NULL,
+  p_device_label TEXT DEFAULT NULL
+)
+RETURNS attendance AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_session sessions%ROWTYPE;
+  v_student_radius DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_coverage DOUBLE PRECISION;
+  v_qr_verified BOOLEAN := FALSE;
+  v_max_accuracy DOUBLE PRECISION;
+  v_coverage_threshold DOUBLE PRECISION;
+  v_network_matched BOOLEAN;
+  v_spoof_signals JSONB;
+  v_device_id TEXT := NULLIF(TRIM(p_device_id), '');
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  IF NOT FOUND OR v_user.role <> 'student' THEN
+    RAISE EXCEPTION 'Only students can mark attendance';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = TRIM(p_session_code);
+  IF NOT FOUND OR NOT v_session.is_active
+    OR (v_session.paused_at IS NULL AND v_session.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Session not found or expired';
+  END IF;
+
+  IF v_session.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session is paused. Please wait for your faculty to resume it';
+  END IF;
+
+  IF v_device_id IS NULL THEN
+    RAISE EXCEPTION 'Device identifier missing. Please update the app and try again';
+  END IF;
+
+  PERFORM bind_student_device(v_user.id, v_device_id, p_device_label);
+
+  -- One phone cannot mark for several students in the same session
+  IF EXISTS (
+    SELECT 1 FROM attendance
+    WHERE session_id = v_session.id
+    AND device_id = v_device_id
+    AND student_id <> v_user.id
+  ) THEN
+    RAISE EXCEPTION 'This device has already been used to mark attendance for another student in this session';
+  END IF;
+
+  -- Registration number must be on the session roster (case insensitive)
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_session.student_list) AS entry
+    WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(v_user.registration_number))
+  ) THEN
+    RAISE EXCEPTION 'Your registration number is not in the faculty''s student list';
+  END IF;
+
+  -- Rotating QR token proves the student can see the classroom display
+  IF p_qr_token IS NOT NULL THEN
+    v_qr_verified := verify_session_qr_token(v_session.id, p_qr_token);
+    IF NOT v_qr_verified THEN
+      RAISE EXCEPTION 'QR code expired or invalid. Scan the code currently on display';
+    END IF;
+  ELSIF v_session.qr_required THEN
+    RAISE EXCEPTION 'This session requires scanning the QR code on display';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90
+    OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location coordinates';
+  END IF;
+
+  IF p_accuracy IS NULL OR p_accuracy < 0 THEN
+    RAISE EXCEPTION 'Invalid location accuracy';
+  END IF;
+
+  v_max_accuracy := COALESCE((v_session.policy->>'max_accuracy')::DOUBLE PRECISION, 50);
+  v_coverage_threshold := COALESCE((v_session.policy->>'coverage_threshold')::DOUBLE PRECISION, 50);
+
+  IF p_accuracy > v_max_accuracy THEN
+    RAISE EXCEPTION 'Location accuracy of %m is worse than the %m required for this session', ROUND(p_accuracy::NUMERIC, 1), v_max_accuracy;
+  END IF;
+
+  v_student_radius := p_accuracy + COALESCE((v_session.policy->>'student_radius_padding')::DOUBLE PRECISION, 1);
+  v_distance := distance_in_meters(
+    v_session.session_latitude, v_session.session_longitude,
+    p_latitude, p_longitude
+  );
+  v_coverage := circle_overlap_percentage(
+    v_session.session_latitude, v_session.session_longitude, v_session.session_radius,
+    p_latitude, p_longitude, v_student_radius
+  );
+
+  v_network_matched := campus_network_match(p_wifi_ssid, p_wifi_bssid);
+
+  -- Device-reported signals, plus what only the server can judge: its own clock and the submitted accuracy
+  v_spoof_signals := COALESCE(p_spoof_signals, '{}'::JSONB);
+  IF p_fix_timestamp IS NOT NULL THEN
+    v_spoof_signals := v_spoof_signals || jsonb_build_object(
+      'clock_drift_seconds', ROUND(EXTRACT(EPOCH FROM (NOW() - p_fix_timestamp))::NUMERIC, 1)
+    );
+  END IF;
+  IF p_accuracy < 1 THEN
+    v_spoof_signals := v_spoof_signals || '{"implausible_accuracy": true}'::JSONB;
+  END IF;
+
+  INSERT INTO attendance (
+    session_id,
+    student_id,
+    student_name,
+    student_registration,
+    student_latitude,
+    student_longitude,
+    student_accuracy,
+    student_radius,
+    distance_from_session,
+    coverage_percentage,
+    status,
+    wifi_ssid,
+    wifi_bssid,
+    connection_type,
+    wifi_bypassed,
+    network_matched,
+    spoof_signals,
+    spoof_risk_score,
+    device_id,
+    qr_verified
+  ) VALUES (
+    v_session.id,
+    v_user.id,
+    v_user.name,
+    v_user.registration_number,
+    p_latitude,
+    p_longitude,
+    p_accuracy,
+    v_student_radius,
+    v_distance,
+    v_coverage,
+    attendance_verdict(v_coverage, v_coverage_threshold, v_session.wifi_required, v_network_matched),
+    p_wifi_ssid,
+    LOWER(p_wifi_bssid),
+    p_connection_type,
+    COALESCE(p_wifi_bypassed, FALSE),
+    v_network_matched,
+    v_spoof_signals,
+    spoof_risk_score(v_spoof_signals),
+    v_device_id,
+    v_qr_verified
+  )
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, BOOLEAN, JSONB, TIMESTAMPTZ, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_attendance(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT, TEXT, BOOLEAN, JSONB, TIMESTAMPTZ, TEXT, TEXT) TO authenticated;
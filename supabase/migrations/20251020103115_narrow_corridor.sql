@@ -0,0 +1,355 @@
+/*
+  # Polygon geofences
+
+  1. New Tables
+    - `geofences` - Named rooms or areas drawn as polygons, shared across the institution
+      - `id` (uuid, primary key)
+      - `name` (text) - e.g. "AB1 Lecture Theatre 2"
+      - `building` (text, nullable)
+      - `floor` (integer, nullable) - For display; phones cannot tell floors apart reliably
+      - `polygon` (jsonb) - Array of at least three `{latitude, longitude}` vertices
+      - `is_active` (boolean) - Inactive geofences are kept for past sessions but not offered
+      - `created_at` (timestamp)
+    - `session_geofences` - Geofences a session is bound to
+      - `session_id` (text), `geofence_id` (uuid)
+
+  2. New Functions
+    - `polygon_position(polygon, lat, lon)` - Whether a point is inside a polygon and its
+      distance to the nearest edge in meters
+    - `polygon_coverage(polygon, lat, lon, radius)` - Percentage of the student's uncertainty
+      circle inside the polygon, treating the nearest edge as a straight line
+
+  3. Changes
+    - `mark_attendance(...)` - Sessions with geofences use the best coverage across them, and
+      record the distance outside the nearest one (0 when inside); other sessions keep the
+      faculty circle
+
+  4. Security
+    - Authenticated users can read geofences; only admins manage them
+    - Faculty bind geofences to their own sessions; admins read all bindings
+
+  Both functions mirror `GeometryUtils` in the app.
+*/
+
+CREATE TABLE geofences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  building TEXT,
+  floor INTEGER,
+  polygon JSONB NOT NULL CHECK (jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE session_geofences (
+  session_id TEXT REFERENCES sessions(id) ON DELETE CASCADE NOT NULL,
+  -- Geofences used by past sessions cannot be deleted, only deactivated
+  geofence_id UUID REFERENCES geofences(id) ON DELETE RESTRICT NOT NULL,
+  PRIMARY KEY (session_id, geofence_id)
+);
+
+CREATE INDEX idx_session_geofences_geofence ON session_geofences(geofence_id);
+
+ALTER TABLE geofences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_geofences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read geofences"
+  ON geofences
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage geofences"
+  ON geofences
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Faculty can read own session geofences"
+  ON session_geofences
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sessions
+      WHERE sessions.id = session_geofences.session_id
+      AND sessions.faculty_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Faculty can bind geofences to own sessions"
+  ON session_geofences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_approved_faculty()
+    AND EXISTS (
+      SELECT 1 FROM sessions
+      WHERE sessions.id = session_geofences.session_id
+      AND sessions.faculty_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can read all session geofences"
+  ON session_geofences
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Works in meters on a local flat projection centred on the point, which is exact enough at room scale
+CREATE OR REPLACE FUNCTION polygon_position(
+  p_polygon JSONB,
+  p_lat DOUBLE PRECISION,
+  p_lon DOUBLE PRECISION,
+  OUT inside BOOLEAN,
+  OUT edge_distance DOUBLE PRECISION
+)
+AS $$
+DECLARE
+  meters_per_degree CONSTANT DOUBLE PRECISION := 6371e3 * PI() / 180;
+  lon_scale DOUBLE PRECISION := meters_per_degree * COS(RADIANS(p_lat));
+  n INTEGER := jsonb_array_length(p_polygon);
+  xi DOUBLE PRECISION;
+  yi DOUBLE PRECISION;
+  xj DOUBLE PRECISION;
+  yj DOUBLE PRECISION;
+  dx DOUBLE PRECISION;
+  dy DOUBLE PRECISION;
+  t DOUBLE PRECISION;
+BEGIN
+  inside := FALSE;
+  edge_distance := 'Infinity';
+
+  FOR i IN 0..n - 1 LOOP
+    xi := ((p_polygon->i->>'longitude')::DOUBLE PRECISION - p_lon) * lon_scale;
+    yi := ((p_polygon->i->>'latitude')::DOUBLE PRECISION - p_lat) * meters_per_degree;
+    xj := ((p_polygon->((i + n - 1) % n)->>'longitude')::DOUBLE PRECISION - p_lon) * lon_scale;
+    yj := ((p_polygon->((i + n - 1) % n)->>'latitude')::DOUBLE PRECISION - p_lat) * meters_per_degree;
+
+    -- Ray cast from the point along +x
+    IF (yi > 0) <> (yj > 0) AND 0 < (xj - xi) * (0 - yi) / (yj - yi) + xi THEN
+      inside := NOT inside;
+    END IF;
+
+    -- Closest point on the edge to the origin
+    dx := xj - xi;
+    dy := yj - yi;
+    IF dx = 0 AND dy = 0 THEN
+      t := 0;
+    ELSE
+      t := LEAST(1, GREATEST(0, -(xi * dx + yi * dy) / (dx * dx + dy * dy)));
+    END IF;
+    edge_distance := LEAST(edge_distance, SQRT((xi + t * dx) ^ 2 + (yi + t * dy) ^ 2));
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Percentage of the student's circle inside the polygon
+CREATE OR REPLACE FUNCTION polygon_coverage(
+  p_polygon JSONB,
+  p_lat DOUBLE PRECISION,
+  p_lon DOUBLE PRECISION,
+  p_radius DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  pos RECORD;
+  ratio DOUBLE PRECISION;
+  segment DOUBLE PRECISION;
+BEGIN
+  SELECT * INTO pos FROM polygon_position(p_polygon, p_lat, p_lon);
+
+  -- A point, or a circle that does not reach the nearest edge, is entirely on one side
+  IF p_radius <= 0 OR pos.edge_distance >= p_radius THEN
+    RETURN CASE WHEN pos.inside THEN 100 ELSE 0 END;
+  END IF;
+
+  -- Share of the circle beyond a straight edge at that distance (circular segment)
+  ratio := pos.edge_distance / p_radius;
+  segment := (ACOS(ratio) - ratio * SQRT(1 - ratio ^ 2)) / PI();
+
+  RETURN CASE WHEN pos.inside THEN (1 - segment) * 100 ELSE segment * 100 END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_session_code TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION,
+  p_wifi_ssid TEXT DEFAULT NULL,
+  p_qr_token TEXT DEFAULT NULL,
+  p_wifi_bssid TEXT DEFAULT NULL,
+  p_connection_type TEXT DEFAULT NULL,
+  p_wifi_bypassed BOOLEAN DEFAULT FALSE,
+  p_spoof_signals JSONB DEFAULT NULL,
+  p_fix_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_device_id TEXT DEFAULT NULL,
+  p_device_label TEXT DEFAULT NULL
+)
+RETURNS attendance AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_session sessions%ROWTYPE;
+  v_student_radius DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_coverage DOUBLE PRECISION;
+  v_qr_verified BOOLEAN := FALSE;
+  v_max_accuracy DOUBLE PRECISION;
+  v_coverage_threshold DOUBLE PRECISION;
+  v_network_matched BOOLEAN;
+  v_spoof_signals JSONB;
+  v_device_id TEXT := NULLIF(TRIM(p_device_id), '');
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  IF NOT FOUND OR v_user.role <> 'student' THEN
+    RAISE EXCEPTION 'Only students can mark attendance';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = TRIM(p_session_code);
+  IF NOT FOUND OR NOT v_session.is_active
+    OR (v_session.paused_at IS NULL AND v_session.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Session not found or expired';
+  END IF;
+
+  IF v_session.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session is paused. Please wait for your faculty to resume it';
+  END IF;
+
+  IF v_device_id IS NULL THEN
+    RAISE EXCEPTION 'Device identifier missing. Please update the app and try again';
+  END IF;
+
+  PERFORM bind_student_device(v_user.id, v_device_id, p_device_label);
+
+  -- One phone cannot mark for several students in the same session
+  IF EXISTS (
+    SELECT 1 FROM attendance
+    WHERE session_id = v_session.id
+    AND device_id = v_device_id
+    AND student_id <> v_user.id
+  ) THEN
+    RAISE EXCEPTION 'This device has already been used to mark attendance for another student in this session';
+  END IF;
+
+  -- Registration number must be on the session roster (case insensitive)
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_session.student_list) AS entry
+    WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(v_user.registration_number))
+  ) THEN
+    RAISE EXCEPTION 'Your registration number is not in the faculty''s student list';
+  END IF;
+
+  -- Rotating QR token proves the student can see the classroom display
+  IF p_qr_token IS NOT NULL THEN
+    v_qr_verified := verify_session_qr_token(v_session.id, p_qr_token);
+    IF NOT v_qr_verified THEN
+      RAISE EXCEPTION 'QR code expired or invalid. Scan the code currently on display';
+    END IF;
+  ELSIF v_session.qr_required THEN
+    RAISE EXCEPTION 'This session requires scanning the QR code on display';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90
+    OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location coordinates';
+  END IF;
+
+  IF p_accuracy IS NULL OR p_accuracy < 0 THEN
+    RAISE EXCEPTION 'Invalid location accuracy';
+  END IF;
+
+  v_max_accuracy := COALESCE((v_session.policy->>'max_accuracy')::DOUBLE PRECISION, 50);
+  v_coverage_threshold := COALESCE((v_session.policy->>'coverage_threshold')::DOUBLE PRECISION, 50);
+
+  IF p_accuracy > v_max_accuracy THEN
+    RAISE EXCEPTION 'Location accuracy of %m is worse than the %m required for this session', ROUND(p_accuracy::NUMERIC, 1), v_max_accuracy;
+  END IF;
+
+  v_student_radius := p_accuracy + COALESCE((v_session.policy->>'student_radius_padding')::DOUBLE PRECISION, 1);
+
+  -- Sessions bound to rooms are judged against their polygons, the rest against the faculty circle
+  IF EXISTS (SELECT 1 FROM session_geofences WHERE session_id = v_session.id) THEN
+    SELECT
+      MAX(polygon_coverage(g.polygon, p_latitude, p_longitude, v_student_radius)),
+      MIN(CASE WHEN pos.inside THEN 0 ELSE pos.edge_distance END)
+    INTO v_coverage, v_distance
+    FROM session_geofences sg
+    JOIN geofences g ON g.id = sg.geofence_id
+    CROSS JOIN LATERAL polygon_position(g.polygon, p_latitude, p_longitude) pos
+    WHERE sg.session_id = v_session.id;
+  ELSE
+    v_distance := distance_in_meters(
+      v_session.session_latitude, v_session.session_longitude,
+      p_latitude, p_longitude
+    );
+    v_coverage := circle_overlap_percentage(
+      v_session.session_latitude, v_session.session_longitude, v_session.session_radius,
+      p_latitude, p_longitude, v_student_radius
+    );
+  END IF;
+
+  v_network_matched := campus_network_match(p_wifi_ssid, p_wifi_bssid);
+
+  -- Device-reported signals, plus what only the server can judge: its own clock and the submitted accuracy
+  v_spoof_signals := COALESCE(p_spoof_signals, '{}'::JSONB);
+  IF p_fix_timestamp IS NOT NULL THEN
+    v_spoof_signals := v_spoof_signals || jsonb_build_object(
+      'clock_drift_seconds', ROUND(EXTRACT(EPOCH FROM (NOW() - p_fix_timestamp))::NUMERIC, 1)
+    );
+  END IF;
+  IF p_accuracy < 1 THEN
+    v_spoof_signals := v_spoof_signals || '{"implausible_accuracy": true}'::JSONB;
+  END IF;
+
+  INSERT INTO attendance (
+    session_id,
+    student_id,
+    student_name,
+    student_registration,
+    student_latitude,
+    student_longitude,
+    student_accuracy,
+    student_radius,
+    distance_from_session,
+    coverage_percentage,
+    status,
+    wifi_ssid,
+    wifi_bssid,
+    connection_type,
+    wifi_bypassed,
+    network_matched,
+    spoof_signals,
+    spoof_risk_score,
+    device_id,
+    qr_verified
+  ) VALUES (
+    v_session.id,
+    v_user.id,
+    v_user.name,
+    v_user.registration_number,
+    p_latitude,
+    p_longitude,
+    p_accuracy,
+    v_student_radius,
+    v_distance,
+    v_coverage,
+    attendance_verdict(v_coverage, v_coverage_threshold, v_session.wifi_required, v_network_matched),
+    p_wifi_ssid,
+    LOWER(p_wifi_bssid),
+    p_connection_type,
+    COALESCE(p_wifi_bypassed, FALSE),
+    v_network_matched,
+    v_spoof_signals,
+    spoof_risk_score(v_spoof_signals),
+    v_device_id,
+    v_qr_verified
+  )
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,39 @@
+/*
+  # Atomic roster replacement
+
+  1. New Functions
+    - `replace_course_roster(course_id, roster)` - Deletes the course roster and inserts the
+      new one in a single transaction, so a failed insert (duplicate registration number,
+      bad row, dropped connection) leaves the previous roster in place instead of an empty one
+
+  2. Security
+    - Only the course's faculty member or an admin may replace its roster
+*/
+
+CREATE OR REPLACE FUNCTION replace_course_roster(p_course_id UUID, p_roster JSONB)
+RETURNS SETOF course_enrollments AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM courses
+    WHERE id = p_course_id
+    AND (faculty_id = auth.uid() OR is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Course not found';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_roster, '[]'::JSONB)) <> 'array' THEN
+    RAISE EXCEPTION 'Roster must be a list of students';
+  END IF;
+
+  DELETE FROM course_enrollments WHERE course_id = p_course_id;
+
+  RETURN QUERY
+  INSERT INTO course_enrollments (course_id, student_name, registration_number)
+  SELECT p_course_id, TRIM(entry->>'name'), TRIM(entry->>'registration_number')
+  FROM jsonb_array_elements(COALESCE(p_roster, '[]'::JSONB)) AS entry
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION replace_course_roster(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION replace_course_roster(UUID, JSONB) TO authenticated;
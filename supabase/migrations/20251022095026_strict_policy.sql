@@ -0,0 +1,23 @@
+/*
+  # Require every session policy field
+
+  1. Changes
+    - `validate_session_policy(policy)` - A missing or null field now fails the check instead
+      of slipping through as NULL, and `max_accuracy` must be at least 1 meter, matching the
+      range the app enforces. Existing rows are not re-checked; the defaults written by the
+      app always carry every field
+*/
+
+CREATE OR REPLACE FUNCTION validate_session_policy(p_policy JSONB)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN COALESCE(
+    (p_policy->>'duration_minutes')::DOUBLE PRECISION BETWEEN 1 AND 180
+    AND (p_policy->>'radius_padding')::DOUBLE PRECISION BETWEEN 0 AND 500
+    AND (p_policy->>'student_radius_padding')::DOUBLE PRECISION BETWEEN 0 AND 100
+    AND (p_policy->>'coverage_threshold')::DOUBLE PRECISION BETWEEN 0 AND 100
+    AND (p_policy->>'max_accuracy')::DOUBLE PRECISION BETWEEN 1 AND 1000,
+    FALSE
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
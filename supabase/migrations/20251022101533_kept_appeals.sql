@@ -0,0 +1,46 @@
+/*
+  # Keep appealed absences when a session is reopened
+
+  1. Changes
+    - `reopen_session(session_id, minutes)` - Absent rows that carry an appeal, pending or
+      resolved, are no longer deleted, so the appeal is not cascaded away with them
+*/
+
+CREATE OR REPLACE FUNCTION reopen_session(p_session_id TEXT, p_minutes INTEGER)
+RETURNS sessions AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+BEGIN
+  IF p_minutes IS NULL OR p_minutes < 1 OR p_minutes > 30 THEN
+    RAISE EXCEPTION 'Reopen window must be between 1 and 30 minutes';
+  END IF;
+
+  UPDATE sessions
+  SET is_active = TRUE,
+      paused_at = NULL,
+      closed_at = NULL,
+      expires_at = NOW() + p_minutes * INTERVAL '1 minute'
+  WHERE id = p_session_id
+  AND faculty_id = auth.uid()
+  AND is_active = FALSE
+  AND closed_at > NOW() - INTERVAL '15 minutes'
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session can only be reopened within 15 minutes of closing';
+  END IF;
+
+  -- Absent rows are re-materialized when the session closes again
+  DELETE FROM attendance a
+  WHERE a.session_id = p_session_id
+  AND a.status = 'absent'
+  AND a.student_latitude IS NULL
+  AND a.override_status IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM attendance_appeals ap
+    WHERE ap.attendance_id = a.id
+  );
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,223 @@
+/*
+  # Submissions after an override
+
+  1. Changes
+    - `mark_attendance(...)` - When the student already has a row without a location, written by
+      `override_attendance` or kept by `reopen_session` because it was appealed, the submission
+      fills in that row instead of failing on the one-row-per-student constraints. The override
+      stays in place and still decides the effective status
+*/
+
+CREATE OR REPLACE FUNCTION mark_attendance(
+  p_session_code TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION,
+  p_wifi_ssid TEXT DEFAULT NULL,
+  p_qr_token TEXT DEFAULT NULL,
+  p_wifi_bssid TEXT DEFAULT NULL,
+  p_connection_type TEXT DEFAULT NULL,
+  p_wifi_bypassed BOOLEAN DEFAULT FALSE,
+  p_spoof_signals JSONB DEFAULT NULL,
+  p_fix_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_device_id TEXT DEFAULT NULL,
+  p_device_label TEXT DEFAULT NULL
+)
+RETURNS attendance AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_session sessions%ROWTYPE;
+  v_student_radius DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_coverage DOUBLE PRECISION;
+  v_qr_verified BOOLEAN := FALSE;
+  v_max_accuracy DOUBLE PRECISION;
+  v_coverage_threshold DOUBLE PRECISION;
+  v_network_matched BOOLEAN;
+  v_spoof_signals JSONB;
+  v_device_id TEXT := NULLIF(TRIM(p_device_id), '');
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  IF NOT FOUND OR v_user.role <> 'student' THEN
+    RAISE EXCEPTION 'Only students can mark attendance';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = TRIM(p_session_code);
+  IF NOT FOUND OR NOT v_session.is_active
+    OR (v_session.paused_at IS NULL AND v_session.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Session not found or expired';
+  END IF;
+
+  IF v_session.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session is paused. Please wait for your faculty to resume it';
+  END IF;
+
+  IF v_device_id IS NULL THEN
+    RAISE EXCEPTION 'Device identifier missing. Please update the app and try again';
+  END IF;
+
+  PERFORM bind_student_device(v_user.id, v_device_id, p_device_label);
+
+  -- One phone cannot mark for several students in the same session
+  IF EXISTS (
+    SELECT 1 FROM attendance
+    WHERE session_id = v_session.id
+    AND device_id = v_device_id
+    AND student_id <> v_user.id
+  ) THEN
+    RAISE EXCEPTION 'This device has already been used to mark attendance for another student in this session';
+  END IF;
+
+  -- Registration number must be on the session roster (case insensitive)
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_session.student_list) AS entry
+    WHERE LOWER(TRIM(entry->>'registration_number')) = LOWER(TRIM(v_user.registration_number))
+  ) THEN
+    RAISE EXCEPTION 'Your registration number is not in the faculty''s student list';
+  END IF;
+
+  -- Rotating QR token proves the student can see the classroom display
+  IF p_qr_token IS NOT NULL THEN
+    v_qr_verified := verify_session_qr_token(v_session.id, p_qr_token);
+    IF NOT v_qr_verified THEN
+      RAISE EXCEPTION 'QR code expired or invalid. Scan the code currently on display';
+    END IF;
+  ELSIF v_session.qr_required THEN
+    RAISE EXCEPTION 'This session requires scanning the QR code on display';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90
+    OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid location coordinates';
+  END IF;
+
+  IF p_accuracy IS NULL OR p_accuracy < 0 THEN
+    RAISE EXCEPTION 'Invalid location accuracy';
+  END IF;
+
+  v_max_accuracy := COALESCE((v_session.policy->>'max_accuracy')::DOUBLE PRECISION, 50);
+  v_coverage_threshold := COALESCE((v_session.policy->>'coverage_threshold')::DOUBLE PRECISION, 50);
+
+  IF p_accuracy > v_max_accuracy THEN
+    RAISE EXCEPTION 'Location accuracy of %m is worse than the %m required for this session', ROUND(p_accuracy::NUMERIC, 1), v_max_accuracy;
+  END IF;
+
+  v_student_radius := p_accuracy + COALESCE((v_session.policy->>'student_radius_padding')::DOUBLE PRECISION, 1);
+
+  -- Sessions bound to rooms are judged against their polygons, the rest against the faculty circle
+  IF EXISTS (SELECT 1 FROM session_geofences WHERE session_id = v_session.id) THEN
+    SELECT
+      MAX(polygon_coverage(g.polygon, p_latitude, p_longitude, v_student_radius)),
+      MIN(CASE WHEN pos.inside THEN 0 ELSE pos.edge_distance END)
+    INTO v_coverage, v_distance
+    FROM session_geofences sg
+    JOIN geofences g ON g.id = sg.geofence_id
+    CROSS JOIN LATERAL polygon_position(g.polygon, p_latitude, p_longitude) pos
+    WHERE sg.session_id = v_session.id;
+  ELSE
+    v_distance := distance_in_meters(
+      v_session.session_latitude, v_session.session_longitude,
+      p_latitude, p_longitude
+    );
+    v_coverage := circle_overlap_percentage(
+      v_session.session_latitude, v_session.session_longitude, v_session.session_radius,
+      p_latitude, p_longitude, v_student_radius
+    );
+  END IF;
+
+  v_network_matched := campus_network_match(p_wifi_ssid, p_wifi_bssid);
+
+  -- Device-reported signals, plus what only the server can judge: its own clock and the submitted accuracy
+  v_spoof_signals := COALESCE(p_spoof_signals, '{}'::JSONB);
+  IF p_fix_timestamp IS NOT NULL THEN
+    v_spoof_signals := v_spoof_signals || jsonb_build_object(
+      'clock_drift_seconds', ROUND(EXTRACT(EPOCH FROM (NOW() - p_fix_timestamp))::NUMERIC, 1)
+    );
+  END IF;
+  IF p_accuracy < 1 THEN
+    v_spoof_signals := v_spoof_signals || '{"implausible_accuracy": true}'::JSONB;
+  END IF;
+
+  -- A row written without a submission (an override, or an absence kept on reopen) is filled in
+  -- instead of colliding with the one-row-per-student constraints; its override still applies
+  UPDATE attendance
+  SET student_id = v_user.id,
+      student_name = v_user.name,
+      student_latitude = p_latitude,
+      student_longitude = p_longitude,
+      student_accuracy = p_accuracy,
+      student_radius = v_student_radius,
+      distance_from_session = v_distance,
+      coverage_percentage = v_coverage,
+      status = attendance_verdict(v_coverage, v_coverage_threshold, v_session.wifi_required, v_network_matched),
+      wifi_ssid = p_wifi_ssid,
+      wifi_bssid = LOWER(p_wifi_bssid),
+      connection_type = p_connection_type,
+      wifi_bypassed = COALESCE(p_wifi_bypassed, FALSE),
+      network_matched = v_network_matched,
+      spoof_signals = v_spoof_signals,
+      spoof_risk_score = spoof_risk_score(v_spoof_signals),
+      device_id = v_device_id,
+      qr_verified = v_qr_verified,
+      created_at = NOW()
+  WHERE session_id = v_session.id
+  AND (student_id = v_user.id
+    OR LOWER(TRIM(student_registration)) = LOWER(TRIM(v_user.registration_number)))
+  AND student_latitude IS NULL
+  RETURNING * INTO v_record;
+
+  IF FOUND THEN
+    RETURN v_record;
+  END IF;
+
+  INSERT INTO attendance (
+    session_id,
+    student_id,
+    student_name,
+    student_registration,
+    student_latitude,
+    student_longitude,
+    student_accuracy,
+    student_radius,
+    distance_from_session,
+    coverage_percentage,
+    status,
+    wifi_ssid,
+    wifi_bssid,
+    connection_type,
+    wifi_bypassed,
+    network_matched,
+    spoof_signals,
+    spoof_risk_score,
+    device_id,
+    qr_verified
+  ) VALUES (
+    v_session.id,
+    v_user.id,
+    v_user.name,
+    v_user.registration_number,
+    p_latitude,
+    p_longitude,
+    p_accuracy,
+    v_student_radius,
+    v_distance,
+    v_coverage,
+    attendance_verdict(v_coverage, v_coverage_threshold, v_session.wifi_required, v_network_matched),
+    p_wifi_ssid,
+    LOWER(p_wifi_bssid),
+    p_connection_type,
+    COALESCE(p_wifi_bypassed, FALSE),
+    v_network_matched,
+    v_spoof_signals,
+    spoof_risk_score(v_spoof_signals),
+    v_device_id,
+    v_qr_verified
+  )
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
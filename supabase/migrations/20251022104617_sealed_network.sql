@@ -0,0 +1,33 @@
+/*
+  # Compute session network facts on update too
+
+  1. Security
+    - `apply_session_network` now also runs on UPDATE, so faculty cannot set
+      `network_matched` through the "Faculty can update own sessions" policy. The stored
+      match is only recomputed when the SSID or BSSID changes; otherwise the value from
+      insert time is kept, even if the campus network list has changed since
+*/
+
+CREATE OR REPLACE FUNCTION apply_session_network()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.wifi_bssid := LOWER(NEW.wifi_bssid);
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.wifi_ssid IS NOT DISTINCT FROM OLD.wifi_ssid
+    AND NEW.wifi_bssid IS NOT DISTINCT FROM OLD.wifi_bssid THEN
+    NEW.network_matched := OLD.network_matched;
+  ELSE
+    NEW.network_matched := campus_network_match(NEW.wifi_ssid, NEW.wifi_bssid);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS apply_session_network ON sessions;
+
+CREATE TRIGGER apply_session_network
+  BEFORE INSERT OR UPDATE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_session_network();
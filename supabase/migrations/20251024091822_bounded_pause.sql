@@ -0,0 +1,57 @@
+/*
+  # Limit how long a session can stay paused
+
+  1. Changes
+    - `expire_sessions()` - Also closes sessions that have been paused for more than two
+      hours, writing their absentees like any other expiry. Previously a paused session
+      that was never resumed stayed open forever
+    - `resume_session(session_id)` - Refuses once the pause limit has passed, so a session
+      the sweep has not reached yet cannot come back with hours added to its countdown
+*/
+
+CREATE OR REPLACE FUNCTION expire_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+  expired RECORD;
+  closed_count INTEGER := 0;
+BEGIN
+  FOR expired IN
+    SELECT id FROM sessions
+    WHERE is_active = TRUE
+    AND (
+      (paused_at IS NULL AND expires_at <= NOW())
+      OR paused_at <= NOW() - INTERVAL '2 hours'
+    )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE sessions SET is_active = FALSE, paused_at = NULL, closed_at = NOW() WHERE id = expired.id;
+    PERFORM materialize_absentees(expired.id);
+    closed_count := closed_count + 1;
+  END LOOP;
+
+  RETURN closed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resume_session(p_session_id TEXT)
+RETURNS sessions AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+BEGIN
+  UPDATE sessions
+  SET expires_at = expires_at + (NOW() - paused_at),
+      paused_at = NULL
+  WHERE id = p_session_id
+  AND faculty_id = auth.uid()
+  AND is_active = TRUE
+  AND paused_at IS NOT NULL
+  AND paused_at > NOW() - INTERVAL '2 hours'
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found, not paused or paused for more than 2 hours';
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,70 @@
+/*
+  # Normalize BSSIDs the same way as the app
+
+  1. New Functions
+    - `normalize_bssid(bssid)` - Trims, lower-cases and turns `-` separators into `:`,
+      mirroring `NetworkUtils.normalizeBssid`. Some Android builds report
+      `AA-BB-CC-DD-EE-FF`, which previously failed to match a pinned access point
+
+  2. Changes
+    - `campus_network_match(ssid, bssid)` - Compares normalized BSSIDs on both sides
+    - `apply_session_network()` - Stores the normalized BSSID on sessions
+    - `campus_networks.bssid` - Normalized on insert and update by a trigger, so entries
+      written outside the app in the dashed form are accepted. Existing rows already satisfy
+      the lower-case colon format enforced by the table's check
+*/
+
+CREATE OR REPLACE FUNCTION normalize_bssid(p_bssid TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(LOWER(REPLACE(TRIM(p_bssid), '-', ':')), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION campus_network_match(p_ssid TEXT, p_bssid TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM campus_networks WHERE is_active) THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_ssid IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM campus_networks
+    WHERE is_active
+    AND ssid = p_ssid
+    AND (bssid IS NULL OR normalize_bssid(bssid) = normalize_bssid(p_bssid))
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION apply_session_network()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.wifi_bssid := normalize_bssid(NEW.wifi_bssid);
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.wifi_ssid IS NOT DISTINCT FROM OLD.wifi_ssid
+    AND NEW.wifi_bssid IS NOT DISTINCT FROM OLD.wifi_bssid THEN
+    NEW.network_matched := OLD.network_matched;
+  ELSE
+    NEW.network_matched := campus_network_match(NEW.wifi_ssid, NEW.wifi_bssid);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION apply_campus_network_bssid()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.bssid := normalize_bssid(NEW.bssid);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_campus_network_bssid
+  BEFORE INSERT OR UPDATE ON campus_networks
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_campus_network_bssid();
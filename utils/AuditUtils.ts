@@ -0,0 +1,102 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { AuditEvent } from '@/lib/supabase';
+
+export interface AuditEventSummary {
+  title: string;
+  detail: string | null;
+  icon: keyof typeof MaterialIcons.glyphMap;
+  color: string;
+}
+
+export class AuditUtils {
+  // Human-readable line for a timeline entry
+  static describe(event: AuditEvent): AuditEventSummary {
+    const before = event.old_values ?? {};
+    const after = event.new_values ?? {};
+    const student = this.studentLabel(after) ?? this.studentLabel(before);
+
+    switch (event.action) {
+      case 'session_created':
+        return {
+          title: 'Session started',
+          detail: `${after.roster_size ?? '?'} students · radius ${this.formatNumber(after.session_radius)}m`,
+          icon: 'play-arrow',
+          color: '#10B981',
+        };
+      case 'session_extended':
+        return {
+          title: 'Session extended',
+          detail: `Expiry ${this.formatTime(before.expires_at)} → ${this.formatTime(after.expires_at)}`,
+          icon: 'more-time',
+          color: '#3B82F6',
+        };
+      case 'session_paused':
+        return { title: 'Countdown paused', detail: null, icon: 'pause', color: '#F59E0B' };
+      case 'session_resumed':
+        return {
+          title: 'Countdown resumed',
+          detail: `Now expires ${this.formatTime(after.expires_at)}`,
+          icon: 'play-arrow',
+          color: '#10B981',
+        };
+      case 'session_closed':
+        return { title: 'Session closed', detail: null, icon: 'stop', color: '#EF4444' };
+      case 'session_reopened':
+        return {
+          title: 'Session reopened',
+          detail: `Until ${this.formatTime(after.expires_at)}`,
+          icon: 'replay',
+          color: '#3B82F6',
+        };
+      case 'session_deleted':
+        return { title: 'Session deleted', detail: null, icon: 'delete', color: '#EF4444' };
+      case 'attendance_marked':
+        return {
+          title: `${student ?? 'Student'} marked ${String(after.status ?? '').toUpperCase()}`,
+          detail: after.coverage_percentage != null
+            ? `Coverage ${this.formatNumber(after.coverage_percentage)}% · distance ${this.formatNumber(after.distance_from_session)}m`
+            : null,
+          icon: 'how-to-reg',
+          color: '#10B981',
+        };
+      case 'attendance_absent_recorded':
+        return { title: `${student ?? 'Student'} recorded absent`, detail: null, icon: 'person-off', color: '#6B7280' };
+      case 'attendance_overridden':
+        return {
+          title: `${student ?? 'Student'} overridden to ${String(after.override_status ?? '').toUpperCase()}`,
+          detail: after.override_reason ? String(after.override_reason) : null,
+          icon: 'edit',
+          color: '#F59E0B',
+        };
+      case 'attendance_override_cleared':
+        return {
+          title: `Override removed for ${student ?? 'student'}`,
+          detail: before.override_status ? `Was ${String(before.override_status).toUpperCase()}` : null,
+          icon: 'undo',
+          color: '#6B7280',
+        };
+      case 'attendance_deleted':
+        return { title: `${student ?? 'Student'} record removed`, detail: null, icon: 'delete', color: '#EF4444' };
+      default:
+        return {
+          title: event.action.replace(/_/g, ' '),
+          detail: Object.keys(after).join(', ') || null,
+          icon: 'edit-note',
+          color: '#6B7280',
+        };
+    }
+  }
+
+  private static studentLabel(values: Record<string, unknown>): string | null {
+    if (!values.student_name) return null;
+    return `${values.student_name}${values.student_registration ? ` (${values.student_registration})` : ''}`;
+  }
+
+  private static formatTime(value: unknown): string {
+    return typeof value === 'string' ? new Date(value).toLocaleTimeString() : '?';
+  }
+
+  private static formatNumber(value: unknown): string {
+    return typeof value === 'number' ? value.toFixed(1) : '?';
+  }
+}
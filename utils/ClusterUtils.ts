@@ -0,0 +1,219 @@
+import { Attendance, Session, Geofence } from '@/lib/supabase';
+import { GeometryUtils } from '@/utils/GeometryUtils';
+import { NetworkUtils } from '@/utils/NetworkUtils';
+import { StatusUtils } from '@/utils/StatusUtils';
+
+export type ClusterKind = 'location' | 'timing' | 'network';
+
+export interface AttendanceCluster {
+  kind: ClusterKind;
+  attendanceIds: string[];
+  // Centroid and enclosing radius of the members, for drawing on the map
+  latitude: number;
+  longitude: number;
+  radius: number;
+  explanation: string;
+}
+
+export interface ClusterAnalysis {
+  clusters: AttendanceCluster[];
+  // Explanations keyed by attendance id, covering clusters and outliers
+  findings: Record<string, string[]>;
+}
+
+type LocatedRecord = Attendance & { student_latitude: number; student_longitude: number };
+
+// Real students in one room spread out by more than this, even with GPS noise
+const STACK_RADIUS_METERS = 2;
+const MIN_STACK_SIZE = 3;
+// Submissions this close in time and space look like one person using several phones
+const BURST_WINDOW_SECONDS = 5;
+const BURST_RADIUS_METERS = 10;
+// Outliers need enough of the class to compare against and must be meaningfully further away
+const MIN_RECORDS_FOR_OUTLIERS = 5;
+const MIN_OUTLIER_METERS = 20;
+const OUTLIER_MAD_FACTOR = 3;
+const CLUSTER_PADDING_METERS = 3;
+
+export class ClusterUtils {
+  // Same-device submissions are rejected by mark_attendance() and never stored, so only position, timing and network
+  // are analysed; the session map says so rather than implying the device check found nothing
+  static analyze(session: Session, records: Attendance[], geofences: Geofence[] = []): ClusterAnalysis {
+    const located = records.filter((record): record is LocatedRecord =>
+      record.student_latitude !== null &&
+      record.student_longitude !== null &&
+      !['absent', 'excused'].includes(StatusUtils.getEffectiveStatus(record))
+    );
+
+    const clusters = [
+      ...this.findLocationClusters(session, geofences, located),
+      ...this.findTimingClusters(located),
+      ...this.findNetworkClusters(located),
+    ];
+
+    const findings: Record<string, string[]> = {};
+    const addFinding = (attendanceId: string, explanation: string) => {
+      findings[attendanceId] = [...(findings[attendanceId] ?? []), explanation];
+    };
+
+    clusters.forEach(cluster => cluster.attendanceIds.forEach(id => addFinding(id, cluster.explanation)));
+    this.findOutliers(located).forEach(({ attendanceId, explanation }) => addFinding(attendanceId, explanation));
+
+    return { clusters, findings };
+  }
+
+  // Three or more students reporting practically the same spot
+  private static findLocationClusters(
+    session: Session,
+    geofences: Geofence[],
+    records: LocatedRecord[]
+  ): AttendanceCluster[] {
+    return this.group(records, (a, b) => this.distanceBetween(a, b) <= STACK_RADIUS_METERS)
+      .filter(members => members.length >= MIN_STACK_SIZE)
+      .map(members => {
+        const cluster = this.describeGroup('location', members);
+        const outside = this.isOutsideSessionArea(session, geofences, cluster.latitude, cluster.longitude)
+          ? ', outside the session area'
+          : '';
+        return {
+          ...cluster,
+          explanation: `${members.length} students within ${GeometryUtils.formatDistance(this.diameter(members))} of each other${outside}`,
+        };
+      });
+  }
+
+  // Submissions seconds apart from the same place
+  private static findTimingClusters(records: LocatedRecord[]): AttendanceCluster[] {
+    return this.group(records, (a, b) =>
+      Math.abs(this.secondsBetween(a, b)) <= BURST_WINDOW_SECONDS &&
+      this.distanceBetween(a, b) <= BURST_RADIUS_METERS
+    )
+      .filter(members => members.length >= 2)
+      .map(members => {
+        const times = members.map(member => new Date(member.created_at).getTime());
+        const span = Math.round((Math.max(...times) - Math.min(...times)) / 1000);
+        return {
+          ...this.describeGroup('timing', members),
+          explanation: `${members.length} submissions within ${span}s and ${GeometryUtils.formatDistance(this.diameter(members))} of each other`,
+        };
+      });
+  }
+
+  // Students sharing a network that is not on the campus list, such as a hostel router or a hotspot
+  private static findNetworkClusters(records: LocatedRecord[]): AttendanceCluster[] {
+    const byNetwork = new Map<string, LocatedRecord[]>();
+    records
+      .filter(record => record.network_matched === false && (record.wifi_bssid || record.wifi_ssid))
+      .forEach(record => {
+        const key = NetworkUtils.normalizeBssid(record.wifi_bssid) ?? `ssid:${record.wifi_ssid}`;
+        byNetwork.set(key, [...(byNetwork.get(key) ?? []), record]);
+      });
+
+    return Array.from(byNetwork.values())
+      .filter(members => members.length >= 2)
+      .map(members => ({
+        ...this.describeGroup('network', members),
+        explanation: `${members.length} students on the same off-campus network ${members[0].wifi_ssid ?? members[0].wifi_bssid}`,
+      }));
+  }
+
+  // Distance from the class median, judged against the median absolute deviation
+  private static findOutliers(records: LocatedRecord[]): { attendanceId: string; explanation: string }[] {
+    if (records.length < MIN_RECORDS_FOR_OUTLIERS) return [];
+
+    const centreLat = this.median(records.map(record => record.student_latitude));
+    const centreLon = this.median(records.map(record => record.student_longitude));
+    const distances = records.map(record =>
+      GeometryUtils.distanceInMeters(centreLat, centreLon, record.student_latitude, record.student_longitude)
+    );
+    const medianDistance = this.median(distances);
+    const mad = this.median(distances.map(distance => Math.abs(distance - medianDistance)));
+    const limit = Math.max(MIN_OUTLIER_METERS, OUTLIER_MAD_FACTOR * 1.4826 * mad);
+
+    return records
+      .map((record, index) => ({ record, distance: distances[index] }))
+      .filter(({ distance }) => distance - medianDistance > limit)
+      .map(({ record, distance }) => ({
+        attendanceId: record.id,
+        explanation: `${GeometryUtils.formatDistance(distance)} from where the rest of the class marked`,
+      }));
+  }
+
+  // Groups in which every pair is linked (complete linkage), so a chain of neighbours never becomes one group.
+  // Each record joins the largest group it is linked to all of, in submission order.
+  private static group(
+    records: LocatedRecord[],
+    linked: (a: LocatedRecord, b: LocatedRecord) => boolean
+  ): LocatedRecord[][] {
+    const groups: LocatedRecord[][] = [];
+    [...records]
+      .sort((a, b) => this.secondsBetween(a, b))
+      .forEach(record => {
+        const candidates = groups.filter(members => members.every(member => linked(member, record)));
+        const target = candidates.reduce<LocatedRecord[] | null>(
+          (largest, members) => (largest === null || members.length > largest.length ? members : largest),
+          null
+        );
+        if (target) {
+          target.push(record);
+        } else {
+          groups.push([record]);
+        }
+      });
+    return groups;
+  }
+
+  private static describeGroup(kind: ClusterKind, members: LocatedRecord[]): Omit<AttendanceCluster, 'explanation'> {
+    const latitude = members.reduce((sum, member) => sum + member.student_latitude, 0) / members.length;
+    const longitude = members.reduce((sum, member) => sum + member.student_longitude, 0) / members.length;
+    const spread = Math.max(...members.map(member =>
+      GeometryUtils.distanceInMeters(latitude, longitude, member.student_latitude, member.student_longitude)
+    ));
+
+    return {
+      kind,
+      attendanceIds: members.map(member => member.id),
+      latitude,
+      longitude,
+      radius: spread + CLUSTER_PADDING_METERS,
+    };
+  }
+
+  private static isOutsideSessionArea(
+    session: Session,
+    geofences: Geofence[],
+    latitude: number,
+    longitude: number
+  ): boolean {
+    if (geofences.length > 0) {
+      return !GeometryUtils.isInsideAny(geofences.map(geofence => geofence.polygon), latitude, longitude);
+    }
+    const fromCentre = GeometryUtils.distanceInMeters(
+      session.session_latitude, session.session_longitude,
+      latitude, longitude
+    );
+    return fromCentre > session.session_radius;
+  }
+
+  // Largest distance between any two members
+  private static diameter(members: LocatedRecord[]): number {
+    return members.reduce((largest, a, index) =>
+      members.slice(index + 1).reduce((inner, b) => Math.max(inner, this.distanceBetween(a, b)), largest),
+      0
+    );
+  }
+
+  private static distanceBetween(a: LocatedRecord, b: LocatedRecord): number {
+    return GeometryUtils.distanceInMeters(a.student_latitude, a.student_longitude, b.student_latitude, b.student_longitude);
+  }
+
+  private static secondsBetween(a: Attendance, b: Attendance): number {
+    return (new Date(a.created_at).getTime() - new Date(b.created_at).getTime()) / 1000;
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
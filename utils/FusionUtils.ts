@@ -0,0 +1,84 @@
+import { LocationObject } from 'expo-location';
+import { GeometryUtils } from '@/utils/GeometryUtils';
+
+export interface FusedFix {
+  latitude: number;
+  longitude: number;
+  // Combined uncertainty in meters, comparable to a single reading's accuracy
+  accuracy: number;
+  // Readings that went into the estimate, oldest first
+  used: LocationObject[];
+  rejectedCount: number;
+}
+
+// Keeps a reported 0m accuracy (mock providers) from taking all of the weight
+const MIN_WEIGHT_ACCURACY_METERS = 1;
+// Readings further from the consensus than this many times their own accuracy are discarded
+const OUTLIER_ACCURACY_FACTOR = 2.5;
+// Readings without an accuracy are treated as coarse network fixes
+const UNKNOWN_ACCURACY_METERS = 100;
+
+export class FusionUtils {
+  static fuse(readings: LocationObject[]): FusedFix {
+    if (readings.length === 0) {
+      throw new Error('No GPS readings obtained');
+    }
+
+    const used = this.rejectOutliers(readings);
+    const weights = used.map(reading => 1 / Math.pow(this.weightAccuracy(reading), 2));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const latitude = used.reduce((sum, reading, i) => sum + reading.coords.latitude * weights[i], 0) / totalWeight;
+    const longitude = used.reduce((sum, reading, i) => sum + reading.coords.longitude * weights[i], 0) / totalWeight;
+
+    // Weighted RMS distance of the readings from the centroid
+    const spread = Math.sqrt(
+      used.reduce((sum, reading, i) => {
+        const distance = GeometryUtils.distanceInMeters(latitude, longitude, reading.coords.latitude, reading.coords.longitude);
+        return sum + weights[i] * distance * distance;
+      }, 0) / totalWeight
+    );
+
+    // Consecutive GPS fixes share most of their error, so averaging them cannot beat the best
+    // single reading; readings that disagree with each other widen the uncertainty instead
+    const bestAccuracy = Math.min(...used.map(reading => this.reportedAccuracy(reading)));
+
+    return {
+      latitude,
+      longitude,
+      accuracy: Math.max(bestAccuracy, spread),
+      used,
+      rejectedCount: readings.length - used.length,
+    };
+  }
+
+  // Distance from the median position, judged against each reading's own accuracy
+  private static rejectOutliers(readings: LocationObject[]): LocationObject[] {
+    if (readings.length < 3) return readings;
+
+    const medianLat = this.median(readings.map(reading => reading.coords.latitude));
+    const medianLon = this.median(readings.map(reading => reading.coords.longitude));
+
+    const kept = readings.filter(reading => {
+      const distance = GeometryUtils.distanceInMeters(medianLat, medianLon, reading.coords.latitude, reading.coords.longitude);
+      return distance <= OUTLIER_ACCURACY_FACTOR * this.weightAccuracy(reading);
+    });
+
+    // If nothing agrees with the median there is no consensus to reject against
+    return kept.length > 0 ? kept : readings;
+  }
+
+  private static reportedAccuracy(reading: LocationObject): number {
+    return reading.coords.accuracy ?? UNKNOWN_ACCURACY_METERS;
+  }
+
+  private static weightAccuracy(reading: LocationObject): number {
+    return Math.max(MIN_WEIGHT_ACCURACY_METERS, this.reportedAccuracy(reading));
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
@@ -0,0 +1,224 @@
+import { Session, Geofence, GeofencePoint } from '@/lib/supabase';
+import { PolicyUtils } from '@/utils/PolicyUtils';
+
+const EARTH_RADIUS_METERS = 6371e3;
+
+export type Verdict = 'present' | 'proxy';
+
+// Everything known about a submission when its verdict is decided
+export interface VerdictSignals {
+  coverage: number;
+  // From the session centre, or from the nearest room edge (zero inside) for geofenced sessions
+  distance: number;
+  accuracy: number;
+  // Null when no campus networks are configured
+  networkMatched: boolean | null;
+}
+
+// A rule returns a reason when the submission should be flagged, or null when it passes
+export type VerdictRule = (signals: VerdictSignals) => string | null;
+
+export interface VerdictResult {
+  status: Verdict;
+  reasons: string[];
+}
+
+export interface PolygonPosition {
+  inside: boolean;
+  // Meters to the nearest edge, whichever side the point is on
+  edgeDistance: number;
+}
+
+// Building blocks for verdict strategies
+export const VerdictRules = {
+  coverage: (threshold: number): VerdictRule => signals =>
+    signals.coverage < threshold
+      ? `Coverage ${signals.coverage.toFixed(1)}% is below ${threshold}%`
+      : null,
+
+  maxDistance: (meters: number): VerdictRule => signals =>
+    signals.distance > meters
+      ? `${GeometryUtils.formatDistance(signals.distance)} from the session area (limit ${GeometryUtils.formatDistance(meters)})`
+      : null,
+
+  maxAccuracy: (meters: number): VerdictRule => signals =>
+    signals.accuracy > meters
+      ? `Accuracy ${signals.accuracy.toFixed(1)}m is worse than ${meters}m`
+      : null,
+
+  // Only an explicit mismatch fails; with no campus networks configured there is nothing to require
+  campusNetwork: (required: boolean): VerdictRule => signals =>
+    required && signals.networkMatched === false ? 'Not on a campus network' : null,
+};
+
+export class GeometryUtils {
+  // Haversine great-circle distance; mirrors distance_in_meters() in the database
+  static distanceInMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const dLat = this.deg2rad(lat2 - lat1);
+    const dLon = this.deg2rad(lon2 - lon1);
+
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(this.deg2rad(lat1)) *
+        Math.cos(this.deg2rad(lat2)) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+
+    // Rounding can push a fractionally past 1 for antipodal points
+    const clamped = Math.min(1, Math.max(0, a));
+    return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(clamped), Math.sqrt(1 - clamped));
+  }
+
+  static deg2rad(deg: number): number {
+    return deg * (Math.PI / 180);
+  }
+
+  // Percentage of circle 2 (student) covered by circle 1 (session); mirrors circle_overlap_percentage()
+  static circleOverlapPercentage(
+    center1Lat: number,
+    center1Lon: number,
+    radius1: number,
+    center2Lat: number,
+    center2Lon: number,
+    radius2: number
+  ): number {
+    const distance = this.distanceInMeters(center1Lat, center1Lon, center2Lat, center2Lon);
+    return this.overlapAtDistance(distance, radius1, radius2);
+  }
+
+  // Same calculation once the centre distance is known
+  static overlapAtDistance(distance: number, radius1: number, radius2: number): number {
+    // A zero-radius student circle is a point: fully covered or not at all
+    if (radius2 <= 0) {
+      return distance <= radius1 ? 100 : 0;
+    }
+
+    if (radius1 <= 0 || distance >= radius1 + radius2) {
+      return 0;
+    }
+
+    // One circle is completely inside the other (includes concentric circles)
+    if (distance <= Math.abs(radius1 - radius2)) {
+      const smallerRadius = Math.min(radius1, radius2);
+      return ((smallerRadius * smallerRadius) / (radius2 * radius2)) * 100;
+    }
+
+    const r1Sq = radius1 * radius1;
+    const r2Sq = radius2 * radius2;
+    const dSq = distance * distance;
+
+    const area1 = r1Sq * Math.acos(this.clampCosine((dSq + r1Sq - r2Sq) / (2 * distance * radius1)));
+    const area2 = r2Sq * Math.acos(this.clampCosine((dSq + r2Sq - r1Sq) / (2 * distance * radius2)));
+    const area3 = 0.5 * Math.sqrt(
+      Math.max(0, (-distance + radius1 + radius2) * (distance + radius1 - radius2) * (distance - radius1 + radius2) * (distance + radius1 + radius2))
+    );
+
+    const overlapArea = area1 + area2 - area3;
+    return Math.max(0, Math.min(100, (overlapArea / (Math.PI * r2Sq)) * 100));
+  }
+
+  // Mirrors polygon_position(); a local flat projection around the point is exact enough at room scale
+  static polygonPosition(polygon: GeofencePoint[], latitude: number, longitude: number): PolygonPosition {
+    const metersPerDegree = (EARTH_RADIUS_METERS * Math.PI) / 180;
+    const lonScale = metersPerDegree * Math.cos(this.deg2rad(latitude));
+    const project = (point: GeofencePoint) => ({
+      x: (point.longitude - longitude) * lonScale,
+      y: (point.latitude - latitude) * metersPerDegree,
+    });
+
+    let inside = false;
+    let edgeDistance = Infinity;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = project(polygon[i]);
+      const b = project(polygon[j]);
+
+      // Ray cast from the point along +x
+      if ((a.y > 0) !== (b.y > 0) && 0 < ((b.x - a.x) * (0 - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+
+      // Closest point on the edge to the origin
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq === 0 ? 0 : Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSq));
+      edgeDistance = Math.min(edgeDistance, Math.hypot(a.x + t * dx, a.y + t * dy));
+    }
+
+    return { inside, edgeDistance };
+  }
+
+  // Percentage of the student circle inside the polygon; mirrors polygon_coverage()
+  static polygonCoverage(polygon: GeofencePoint[], latitude: number, longitude: number, radius: number): number {
+    const { inside, edgeDistance } = this.polygonPosition(polygon, latitude, longitude);
+
+    // A point, or a circle that does not reach the nearest edge, is entirely on one side
+    if (radius <= 0 || edgeDistance >= radius) {
+      return inside ? 100 : 0;
+    }
+
+    // Share of the circle beyond a straight edge at that distance (circular segment)
+    const ratio = edgeDistance / radius;
+    const segment = (Math.acos(ratio) - ratio * Math.sqrt(1 - ratio * ratio)) / Math.PI;
+    return (inside ? 1 - segment : segment) * 100;
+  }
+
+  // True when the point lies in any of the polygons
+  static isInsideAny(polygons: GeofencePoint[][], latitude: number, longitude: number): boolean {
+    return polygons.some(polygon => this.polygonPosition(polygon, latitude, longitude).inside);
+  }
+
+  // One "latitude, longitude" pair per line, as copied from a map app; null if any line is invalid
+  static parsePolygon(text: string): GeofencePoint[] | null {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    const points = lines.map(line => {
+      const parts = line.split(/[\s,]+/).filter(Boolean).map(Number);
+      if (parts.length !== 2 || parts.some(Number.isNaN)) return null;
+      const [latitude, longitude] = parts;
+      if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+      return { latitude, longitude };
+    });
+    return points.every((point): point is GeofencePoint => point !== null) ? points : null;
+  }
+
+  // The strategy mark_attendance() applies for a session. A position further out than the worst
+  // accepted accuracy cannot be explained by GPS error
+  static sessionVerdictRules(session: Session, hasGeofences = false): VerdictRule[] {
+    const policy = PolicyUtils.resolve(session.policy);
+    const maxDistance = hasGeofences ? policy.max_accuracy : session.session_radius + policy.max_accuracy;
+    return [
+      VerdictRules.coverage(policy.coverage_threshold),
+      VerdictRules.maxDistance(maxDistance),
+      VerdictRules.maxAccuracy(policy.max_accuracy),
+      VerdictRules.campusNetwork(session.wifi_required),
+    ];
+  }
+
+  static determineVerdict(signals: VerdictSignals, rules: VerdictRule[]): VerdictResult {
+    const reasons = rules
+      .map(rule => rule(signals))
+      .filter((reason): reason is string => reason !== null);
+    return { status: reasons.length === 0 ? 'present' : 'proxy', reasons };
+  }
+
+  // e.g. "Lab 2 · AB1, floor 3"
+  static describeGeofence(geofence: Pick<Geofence, 'name' | 'building' | 'floor'>): string {
+    const location = [
+      geofence.building,
+      geofence.floor !== null ? `floor ${geofence.floor}` : null,
+    ].filter(Boolean).join(', ');
+    return location ? `${geofence.name} · ${location}` : geofence.name;
+  }
+
+  static formatDistance(distance: number): string {
+    if (distance < 1000) {
+      return `${Math.round(distance)}m`;
+    }
+    return `${(distance / 1000).toFixed(1)}km`;
+  }
+
+  private static clampCosine(value: number): number {
+    return Math.min(1, Math.max(-1, value));
+  }
+}
@@ -0,0 +1,66 @@
+import { AttendanceHistoryEntry } from '@/lib/supabase';
+import { StatusUtils } from '@/utils/StatusUtils';
+
+// Matches the courses.attendance_threshold column default
+const DEFAULT_ATTENDANCE_THRESHOLD = 75;
+
+export interface CourseHistory {
+  key: string;
+  code: string;
+  name: string;
+  threshold: number;
+  entries: AttendanceHistoryEntry[];
+  attended: number;
+  counted: number;
+  percentage: number;
+  belowThreshold: boolean;
+}
+
+export class HistoryUtils {
+  // Group a student's history per course, using the same counting rules as the faculty register
+  static groupByCourse(entries: AttendanceHistoryEntry[]): CourseHistory[] {
+    const groups = new Map<string, CourseHistory>();
+
+    entries.forEach(entry => {
+      const key = entry.course_id ?? 'uncategorized';
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          key,
+          code: entry.course_code ?? 'Other',
+          name: entry.course_name ?? 'Sessions without a course',
+          threshold: entry.attendance_threshold ?? DEFAULT_ATTENDANCE_THRESHOLD,
+          entries: [],
+          attended: 0,
+          counted: 0,
+          percentage: 100,
+          belowThreshold: false,
+        };
+        groups.set(key, group);
+      }
+
+      group.entries.push(entry);
+      const status = StatusUtils.getEffectiveStatus(entry);
+      if (StatusUtils.isCounted(status)) {
+        group.counted++;
+        if (status === 'present') {
+          group.attended++;
+        }
+      }
+    });
+
+    return Array.from(groups.values())
+      .map(group => {
+        const percentage = group.counted > 0 ? (group.attended / group.counted) * 100 : 100;
+        return {
+          ...group,
+          entries: [...group.entries].sort(
+            (a, b) => new Date(b.session_date).getTime() - new Date(a.session_date).getTime()
+          ),
+          percentage,
+          belowThreshold: group.counted > 0 && percentage < group.threshold,
+        };
+      })
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }
+}
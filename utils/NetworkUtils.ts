@@ -0,0 +1,56 @@
+import { CampusNetwork } from '@/lib/supabase';
+
+// Network columns shared by sessions and attendance rows
+export interface NetworkFacts {
+  connection_type: string | null;
+  wifi_ssid: string | null;
+  network_matched: boolean | null;
+  wifi_bypassed: boolean;
+}
+
+const BSSID_PATTERN = /^([0-9a-f]{2}:){5}[0-9a-f]{2}$/;
+
+export class NetworkUtils {
+  // Lower-case, colon-separated form stored in campus_networks; null if not a MAC address
+  static normalizeBssid(bssid: string | null | undefined): string | null {
+    if (!bssid) return null;
+    const normalized = bssid.trim().toLowerCase().replace(/-/g, ':');
+    return BSSID_PATTERN.test(normalized) ? normalized : null;
+  }
+
+  // The SSID must match; entries with a BSSID also require that access point
+  static findCampusNetwork(
+    ssid: string | null,
+    bssid: string | null,
+    networks: CampusNetwork[]
+  ): CampusNetwork | null {
+    if (!ssid) return null;
+    const normalizedBssid = this.normalizeBssid(bssid);
+
+    return networks.find(network =>
+      network.is_active &&
+      network.ssid === ssid &&
+      (network.bssid === null || network.bssid === normalizedBssid)
+    ) ?? null;
+  }
+
+  // Short label such as "WiFi CampusNet · campus" or "cellular · prompt skipped"; null for older rows
+  static describeConnection(facts: NetworkFacts): string | null {
+    if (!facts.connection_type) return null;
+
+    const parts = [
+      facts.connection_type === 'wifi' ? `WiFi ${facts.wifi_ssid ?? '(hidden SSID)'}` : facts.connection_type,
+    ];
+    if (facts.network_matched === true) parts.push('campus');
+    if (facts.network_matched === false) parts.push('off campus network');
+    if (facts.wifi_bypassed) parts.push('prompt skipped');
+    return parts.join(' · ');
+  }
+
+  // Quoted, de-duplicated SSIDs for prompts, e.g. "CampusNet" or "Library-WiFi"
+  static describe(networks: CampusNetwork[]): string {
+    const names = Array.from(new Set(networks.filter(n => n.is_active).map(n => `"${n.ssid}"`)));
+    if (names.length <= 1) return names[0] ?? 'campus';
+    return `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+  }
+}
@@ -0,0 +1,78 @@
+import { SessionPolicy } from '@/lib/supabase';
+
+export interface PolicyPreset {
+  key: string;
+  label: string;
+  policy: SessionPolicy;
+}
+
+// Matches the column defaults in the session policy migration
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  duration_minutes: 10,
+  radius_padding: 10,
+  student_radius_padding: 1,
+  coverage_threshold: 50,
+  max_accuracy: 50,
+};
+
+export class PolicyUtils {
+  static readonly PRESETS: PolicyPreset[] = [
+    {
+      key: 'lecture_hall',
+      label: 'Lecture Hall',
+      policy: DEFAULT_SESSION_POLICY,
+    },
+    {
+      key: 'lab',
+      label: 'Lab',
+      policy: {
+        duration_minutes: 15,
+        radius_padding: 5,
+        student_radius_padding: 1,
+        coverage_threshold: 60,
+        max_accuracy: 30,
+      },
+    },
+    {
+      key: 'open_ground',
+      label: 'Open Ground',
+      policy: {
+        duration_minutes: 10,
+        radius_padding: 30,
+        student_radius_padding: 3,
+        coverage_threshold: 40,
+        max_accuracy: 80,
+      },
+    },
+  ];
+
+  // Fill in any missing fields from the defaults (older rows may lack newer keys)
+  static resolve(policy?: Partial<SessionPolicy> | null): SessionPolicy {
+    return { ...DEFAULT_SESSION_POLICY, ...(policy || {}) };
+  }
+
+  // Returns an error message for out-of-range values, or null when valid
+  static validate(policy: SessionPolicy): string | null {
+    if (!Number.isFinite(policy.duration_minutes) || policy.duration_minutes < 1 || policy.duration_minutes > 180) {
+      return 'Duration must be between 1 and 180 minutes';
+    }
+    if (!Number.isFinite(policy.radius_padding) || policy.radius_padding < 0 || policy.radius_padding > 500) {
+      return 'Session radius padding must be between 0 and 500 meters';
+    }
+    if (!Number.isFinite(policy.student_radius_padding) || policy.student_radius_padding < 0 || policy.student_radius_padding > 100) {
+      return 'Student radius padding must be between 0 and 100 meters';
+    }
+    if (!Number.isFinite(policy.coverage_threshold) || policy.coverage_threshold < 0 || policy.coverage_threshold > 100) {
+      return 'Coverage threshold must be between 0 and 100%';
+    }
+    if (!Number.isFinite(policy.max_accuracy) || policy.max_accuracy < 1 || policy.max_accuracy > 1000) {
+      return 'Maximum accuracy must be between 1 and 1000 meters';
+    }
+    return null;
+  }
+
+  static isSamePolicy(a: SessionPolicy, b: SessionPolicy): boolean {
+    return (Object.keys(DEFAULT_SESSION_POLICY) as (keyof SessionPolicy)[])
+      .every(key => Object.is(a[key], b[key]));
+  }
+}
@@ -0,0 +1,28 @@
+const QR_PREFIX = 'smartattendance';
+
+export interface AttendanceQRPayload {
+  sessionId: string;
+  token: string;
+}
+
+export class QRUtils {
+  // Payload encoded in the rotating QR code shown on the faculty dashboard
+  static buildPayload(sessionId: string, token: string): string {
+    return `${QR_PREFIX}:${sessionId}:${token}`;
+  }
+
+  // Parse a scanned QR code, returning null for codes not produced by the app
+  static parsePayload(data: string): AttendanceQRPayload | null {
+    const parts = data.trim().split(':');
+    if (parts.length !== 3 || parts[0] !== QR_PREFIX) {
+      return null;
+    }
+
+    const [, sessionId, token] = parts;
+    if (!/^\d{6}$/.test(sessionId) || !/^[0-9A-F]+$/i.test(token)) {
+      return null;
+    }
+
+    return { sessionId, token };
+  }
+}
@@ -0,0 +1,83 @@
+import { Attendance, CourseEnrollment, Session } from '@/lib/supabase';
+import { RegisterStatus, StatusUtils } from '@/utils/StatusUtils';
+
+export interface RegisterRow {
+  name: string;
+  registration_number: string;
+  cells: RegisterStatus[];
+  attended: number;
+  counted: number;
+  percentage: number;
+  belowThreshold: boolean;
+}
+
+export interface Register {
+  sessions: Session[];
+  rows: RegisterRow[];
+}
+
+export class RegisterUtils {
+  // A session still accepting submissions leaves missing cells as pending
+  static isSessionOpen(session: Session, now: Date = new Date()): boolean {
+    return session.is_active && new Date(session.expires_at) > now;
+  }
+
+  // Build the per-course register: one row per enrolled student, one cell per session
+  static buildRegister(
+    roster: CourseEnrollment[],
+    sessions: Session[],
+    attendance: Attendance[],
+    threshold: number
+  ): Register {
+    const orderedSessions = [...sessions].sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+    // Index attendance by session and lower-cased registration number
+    const recordIndex = new Map<string, Attendance>();
+    attendance.forEach(record => {
+      recordIndex.set(`${record.session_id}:${record.student_registration.toLowerCase().trim()}`, record);
+    });
+
+    const rows = roster.map(enrollment => {
+      const regLower = enrollment.registration_number.toLowerCase().trim();
+      let attended = 0;
+      let counted = 0;
+
+      const cells = orderedSessions.map(session => {
+        const record = recordIndex.get(`${session.id}:${regLower}`);
+        let status: RegisterStatus;
+
+        if (record) {
+          status = StatusUtils.getEffectiveStatus(record);
+        } else if (this.isSessionOpen(session)) {
+          status = 'pending';
+        } else {
+          status = 'absent';
+        }
+
+        if (StatusUtils.isCounted(status)) {
+          counted++;
+          if (status === 'present') {
+            attended++;
+          }
+        }
+        return status;
+      });
+
+      const percentage = counted > 0 ? (attended / counted) * 100 : 100;
+
+      return {
+        name: enrollment.student_name,
+        registration_number: enrollment.registration_number,
+        cells,
+        attended,
+        counted,
+        percentage,
+        belowThreshold: counted > 0 && percentage < threshold,
+      };
+    });
+
+    return { sessions: orderedSessions, rows };
+  }
+}
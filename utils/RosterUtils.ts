@@ -0,0 +1,165 @@
+import * as XLSX from 'xlsx';
+import { RosterEntry } from '@/services/CourseService';
+
+export type RosterField = 'name' | 'registration_number';
+
+export type ColumnMapping = Record<RosterField, number | null>;
+
+export interface RosterTable {
+  headers: string[];
+  // Blank rows are kept so each row's position still matches the spreadsheet
+  rows: string[][];
+  // 1-based spreadsheet row of rows[0]
+  firstRowNumber: number;
+}
+
+export const EMPTY_ROSTER_TABLE: RosterTable = { headers: [], rows: [], firstRowNumber: 2 };
+
+export type RosterIssue = 'empty_name' | 'empty_registration' | 'malformed_registration' | 'duplicate_registration';
+
+export interface ParsedRosterRow {
+  // 1-based spreadsheet row, counting the header row
+  rowNumber: number;
+  name: string;
+  registration_number: string;
+  issues: RosterIssue[];
+}
+
+export interface RosterDiff {
+  added: RosterEntry[];
+  removed: RosterEntry[];
+  renamed: { registration_number: string; from: string; to: string }[];
+  unchanged: number;
+}
+
+// Header spellings recognised without manual mapping; compared lower-cased with separators stripped
+const COLUMN_ALIASES: Record<RosterField, string[]> = {
+  name: ['name', 'studentname', 'fullname', 'student'],
+  registration_number: ['registrationnumber', 'regno', 'regnumber', 'registrationno', 'rollno', 'rollnumber', 'enrollmentno'],
+};
+
+// Letters, digits and the separators institutions commonly use, at least four characters
+const REGISTRATION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9/-]{3,}$/;
+
+export class RosterUtils {
+  static readonly FIELDS: { key: RosterField; label: string }[] = [
+    { key: 'name', label: 'Student Name' },
+    { key: 'registration_number', label: 'Registration Number' },
+  ];
+
+  // xlsx, xls and csv all parse from base64; the library sniffs the format
+  static readWorkbook(base64: string): XLSX.WorkBook {
+    return XLSX.read(base64, { type: 'base64' });
+  }
+
+  static readTable(workbook: XLSX.WorkBook, sheetName: string): RosterTable {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet || !worksheet['!ref']) {
+      return EMPTY_ROSTER_TABLE;
+    }
+
+    const matrix = XLSX.utils
+      .sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '', blankrows: true })
+      .map(row => row.map(cell => String(cell).trim()));
+    // The header is the first non-blank row; the sheet range may not start at row 1
+    const headerIndex = Math.max(0, matrix.findIndex(row => row.some(cell => cell !== '')));
+    const firstRow = XLSX.utils.decode_range(worksheet['!ref']).s.r + 1;
+
+    return {
+      headers: matrix[headerIndex] ?? [],
+      rows: matrix.slice(headerIndex + 1),
+      firstRowNumber: firstRow + headerIndex + 1,
+    };
+  }
+
+  static guessMapping(headers: string[]): ColumnMapping {
+    const normalized = headers.map(header => header.toLowerCase().replace(/[^a-z]/g, ''));
+    const find = (field: RosterField): number | null => {
+      const index = normalized.findIndex(header => COLUMN_ALIASES[field].includes(header));
+      return index === -1 ? null : index;
+    };
+
+    return {
+      name: find('name'),
+      registration_number: find('registration_number'),
+    };
+  }
+
+  static parseRows(table: RosterTable, mapping: ColumnMapping): ParsedRosterRow[] {
+    const parsed = table.rows
+      .map((row, index) => ({
+        rowNumber: table.firstRowNumber + index,
+        name: mapping.name !== null ? row[mapping.name] ?? '' : '',
+        registration_number: mapping.registration_number !== null ? row[mapping.registration_number] ?? '' : '',
+        issues: [] as RosterIssue[],
+      }))
+      // Rows with nothing in either mapped column are spacing, not students
+      .filter(row => row.name !== '' || row.registration_number !== '');
+
+    const seen = new Map<string, number>();
+    parsed.forEach(row => {
+      if (row.registration_number) {
+        const key = row.registration_number.toLowerCase();
+        seen.set(key, (seen.get(key) ?? 0) + 1);
+      }
+    });
+
+    parsed.forEach(row => {
+      if (!row.name) {
+        row.issues.push('empty_name');
+      }
+      if (!row.registration_number) {
+        row.issues.push('empty_registration');
+      } else if (!REGISTRATION_PATTERN.test(row.registration_number)) {
+        row.issues.push('malformed_registration');
+      }
+      if (row.registration_number && (seen.get(row.registration_number.toLowerCase()) ?? 0) > 1) {
+        row.issues.push('duplicate_registration');
+      }
+    });
+
+    return parsed;
+  }
+
+  // Compare by lower-cased registration number, the same way attendance is matched to students
+  static diffRoster(existing: RosterEntry[], incoming: RosterEntry[]): RosterDiff {
+    const existingIndex = new Map(existing.map(entry => [entry.registration_number.toLowerCase(), entry]));
+    const incomingKeys = new Set(incoming.map(entry => entry.registration_number.toLowerCase()));
+
+    const diff: RosterDiff = { added: [], removed: [], renamed: [], unchanged: 0 };
+
+    incoming.forEach(entry => {
+      const current = existingIndex.get(entry.registration_number.toLowerCase());
+      if (!current) {
+        diff.added.push(entry);
+      } else if (current.name !== entry.name) {
+        diff.renamed.push({ registration_number: entry.registration_number, from: current.name, to: entry.name });
+      } else {
+        diff.unchanged++;
+      }
+    });
+
+    existing.forEach(entry => {
+      if (!incomingKeys.has(entry.registration_number.toLowerCase())) {
+        diff.removed.push(entry);
+      }
+    });
+
+    return diff;
+  }
+
+  // Registration numbers are compared case-insensitively everywhere
+  static isStudentInList(registrationNumber: string, roster: RosterEntry[]): boolean {
+    const regLower = registrationNumber.toLowerCase().trim();
+    return roster.some(student => student.registration_number.toLowerCase().trim() === regLower);
+  }
+
+  static describeIssue(issue: RosterIssue): string {
+    switch (issue) {
+      case 'empty_name': return 'Missing name';
+      case 'empty_registration': return 'Missing registration number';
+      case 'malformed_registration': return 'Malformed registration number';
+      case 'duplicate_registration': return 'Duplicate registration number';
+    }
+  }
+}
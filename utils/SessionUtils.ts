@@ -0,0 +1,29 @@
+import { Session } from '@/lib/supabase';
+
+// Must match the reopen window enforced by reopen_session()
+export const REOPEN_WINDOW_MINUTES = 15;
+
+export class SessionUtils {
+  // Seconds left on the countdown; a paused session is frozen at its pause time
+  static secondsRemaining(session: Session, now: number = Date.now()): number {
+    const reference = session.paused_at ? new Date(session.paused_at).getTime() : now;
+    return Math.max(0, Math.floor((new Date(session.expires_at).getTime() - reference) / 1000));
+  }
+
+  static isPaused(session: Session): boolean {
+    return session.paused_at !== null;
+  }
+
+  static canReopen(session: Session, now: number = Date.now()): boolean {
+    if (session.is_active || !session.closed_at) {
+      return false;
+    }
+    return now - new Date(session.closed_at).getTime() < REOPEN_WINDOW_MINUTES * 60 * 1000;
+  }
+
+  static formatTime(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,64 @@
+import { LocationObject } from 'expo-location';
+import { SpoofSignals } from '@/lib/supabase';
+
+export type SpoofRiskLevel = 'low' | 'medium' | 'high';
+
+// Consumer GPS never reports a fix this tight; mock apps often do
+const IMPLAUSIBLE_ACCURACY_METERS = 1;
+
+export class SpoofUtils {
+  // Client-side signals from the readings taken for one fix; the database adds clock drift and scores them
+  static collectSignals(readings: LocationObject[]): SpoofSignals {
+    const altitudes = readings.map(reading => reading.coords.altitude);
+    const hasSeveral = readings.length >= 2;
+
+    return {
+      mocked: readings.some(reading => reading.mocked === true),
+      implausible_accuracy: readings.some(reading =>
+        reading.coords.accuracy !== null && reading.coords.accuracy < IMPLAUSIBLE_ACCURACY_METERS
+      ),
+      // Real fixes jitter in the last decimal places between readings
+      identical_readings: hasSeveral && readings.every(reading =>
+        reading.coords.latitude === readings[0].coords.latitude &&
+        reading.coords.longitude === readings[0].coords.longitude
+      ),
+      zero_altitude_variance: hasSeveral &&
+        altitudes.every(altitude => altitude !== null && altitude === altitudes[0]),
+      reading_count: readings.length,
+    };
+  }
+
+  static getRiskLevel(score: number): SpoofRiskLevel {
+    if (score >= 60) return 'high';
+    if (score >= 30) return 'medium';
+    return 'low';
+  }
+
+  static getRiskColor(score: number): string {
+    switch (this.getRiskLevel(score)) {
+      case 'high': return '#EF4444';
+      case 'medium': return '#F59E0B';
+      default: return '#10B981';
+    }
+  }
+
+  // Short descriptions of the signals that fired, for the dashboard
+  static describeSignals(signals: SpoofSignals | null): string[] {
+    if (!signals) return [];
+
+    const reasons: string[] = [];
+    if (signals.mocked) reasons.push('mock location');
+    if (signals.implausible_accuracy) reasons.push('implausible accuracy');
+    if (signals.identical_readings) reasons.push('identical readings');
+    if (signals.zero_altitude_variance) reasons.push('flat altitude');
+    if (signals.clock_drift_seconds !== undefined && this.isClockDrift(signals.clock_drift_seconds)) {
+      reasons.push(`clock drift ${Math.round(signals.clock_drift_seconds)}s`);
+    }
+    return reasons;
+  }
+
+  // Mirrors the drift window in spoof_risk_score(): stale fixes or fixes from the future
+  static isClockDrift(seconds: number): boolean {
+    return seconds > 300 || seconds < -30;
+  }
+}
@@ -0,0 +1,52 @@
+import { Attendance, AttendanceStatus } from '@/lib/supabase';
+
+export type RegisterStatus = 'present' | 'proxy' | 'pending' | 'absent' | 'excused';
+
+export class StatusUtils {
+  // A faculty override wins over the verdict computed at submission time
+  static getEffectiveStatus(record: Pick<Attendance, 'status' | 'override_status'>): AttendanceStatus {
+    return record.override_status ?? record.status;
+  }
+
+  static isOverridden(record: Attendance): boolean {
+    return record.override_status !== null;
+  }
+
+  // Pending and excused cells do not count towards the attendance percentage
+  static isCounted(status: RegisterStatus): boolean {
+    return status !== 'pending' && status !== 'excused';
+  }
+
+  // Badge colour for an attendance status
+  static getStatusColor(status: string): string {
+    switch (status) {
+      case 'present': return '#10B981';
+      case 'proxy': return '#F59E0B';
+      case 'pending': return '#6B7280';
+      case 'absent': return '#EF4444';
+      case 'excused': return '#3B82F6';
+      default: return '#6B7280';
+    }
+  }
+
+  static getAppealStatusColor(status: string): string {
+    switch (status) {
+      case 'pending': return '#F59E0B';
+      case 'accepted': return '#10B981';
+      case 'rejected': return '#EF4444';
+      default: return '#6B7280';
+    }
+  }
+
+  // Single-letter label used in the compact register grid
+  static getStatusShortLabel(status: string): string {
+    switch (status) {
+      case 'present': return 'P';
+      case 'proxy': return 'X';
+      case 'pending': return '-';
+      case 'absent': return 'A';
+      case 'excused': return 'E';
+      default: return '?';
+    }
+  }
+}
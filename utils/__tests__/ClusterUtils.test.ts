@@ -0,0 +1,91 @@
+import { Attendance, Session } from '@/lib/supabase';
+import { ClusterUtils } from '@/utils/ClusterUtils';
+import { DEFAULT_SESSION_POLICY } from '@/utils/PolicyUtils';
+
+const CENTRE = { latitude: 26.8435, longitude: 75.5653 };
+const ONE_METER_LON = 1 / (111195 * Math.cos((CENTRE.latitude * Math.PI) / 180));
+const START = Date.parse('2025-10-20T10:00:00Z');
+
+const session: Session = {
+  id: '123456',
+  faculty_id: 'faculty-1',
+  faculty_name: 'Dr. Rao',
+  course_id: null,
+  student_list: [],
+  session_latitude: CENTRE.latitude,
+  session_longitude: CENTRE.longitude,
+  session_accuracy: 10,
+  session_radius: 50,
+  wifi_ssid: null,
+  wifi_bssid: null,
+  connection_type: null,
+  wifi_bypassed: false,
+  network_matched: null,
+  wifi_required: false,
+  qr_required: false,
+  qr_rotation_seconds: 30,
+  policy: DEFAULT_SESSION_POLICY,
+  is_active: true,
+  expires_at: '2025-10-20T10:10:00Z',
+  paused_at: null,
+  closed_at: null,
+  created_at: '2025-10-20T10:00:00Z',
+};
+
+// A present submission metersEast of the session centre, secondsIn after the session started
+const buildRecord = (index: number, metersEast: number, secondsIn: number): Attendance => ({
+  id: `attendance-${index}`,
+  session_id: session.id,
+  student_id: `student-${index}`,
+  student_name: `Student ${index}`,
+  student_registration: `REG${index}`,
+  student_latitude: CENTRE.latitude,
+  student_longitude: CENTRE.longitude + metersEast * ONE_METER_LON,
+  student_accuracy: 5,
+  student_radius: 6,
+  distance_from_session: metersEast,
+  coverage_percentage: 100,
+  status: 'present',
+  wifi_ssid: null,
+  wifi_bssid: null,
+  connection_type: null,
+  wifi_bypassed: false,
+  network_matched: null,
+  spoof_risk_score: null,
+  spoof_signals: null,
+  device_id: `device-${index}`,
+  qr_verified: false,
+  override_status: null,
+  override_reason: null,
+  overridden_by: null,
+  overridden_at: null,
+  created_at: new Date(START + secondsIn * 1000).toISOString(),
+});
+
+describe('ClusterUtils.analyze', () => {
+  it('reports students stacked on one spot with their actual spread', () => {
+    const records = [0, 0.5, 1].map((meters, index) => buildRecord(index, meters, index * 60));
+    const { clusters } = ClusterUtils.analyze(session, records);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].kind).toBe('location');
+    expect(clusters[0].attendanceIds).toEqual(['attendance-0', 'attendance-1', 'attendance-2']);
+    expect(clusters[0].explanation).toBe('3 students within 1m of each other');
+  });
+
+  it('does not chain neighbours a row apart into one stack', () => {
+    const records = [0, 1.5, 3, 4.5, 6].map((meters, index) => buildRecord(index, meters, index * 60));
+    const { clusters } = ClusterUtils.analyze(session, records);
+
+    expect(clusters.filter(cluster => cluster.kind === 'location')).toEqual([]);
+  });
+
+  it('keeps every pair of a burst within the time window and radius', () => {
+    const records = [0, 6, 12].map((meters, index) => buildRecord(index, meters, index * 2));
+    const timing = ClusterUtils.analyze(session, records).clusters.filter(cluster => cluster.kind === 'timing');
+
+    expect(timing).toHaveLength(1);
+    expect(timing[0].attendanceIds).toEqual(['attendance-0', 'attendance-1']);
+    expect(timing[0].explanation).toBe('2 submissions within 2s and 6m of each other');
+  });
+});
@@ -0,0 +1,191 @@
+import { Session } from '@/lib/supabase';
+import { GeometryUtils, VerdictRules, VerdictSignals } from '@/utils/GeometryUtils';
+import { DEFAULT_SESSION_POLICY } from '@/utils/PolicyUtils';
+
+const CENTRE = { latitude: 26.8435, longitude: 75.5653 };
+// Roughly ten metres in each direction at the centre's latitude
+const TEN_METERS_LAT = 10 / 111195;
+const TEN_METERS_LON = 10 / (111195 * Math.cos((CENTRE.latitude * Math.PI) / 180));
+
+// A 20m square room centred on CENTRE
+const ROOM = [
+  { latitude: CENTRE.latitude - TEN_METERS_LAT, longitude: CENTRE.longitude - TEN_METERS_LON },
+  { latitude: CENTRE.latitude - TEN_METERS_LAT, longitude: CENTRE.longitude + TEN_METERS_LON },
+  { latitude: CENTRE.latitude + TEN_METERS_LAT, longitude: CENTRE.longitude + TEN_METERS_LON },
+  { latitude: CENTRE.latitude + TEN_METERS_LAT, longitude: CENTRE.longitude - TEN_METERS_LON },
+];
+
+const buildSession = (overrides: Partial<Session> = {}): Session => ({
+  id: '123456',
+  faculty_id: 'faculty-1',
+  faculty_name: 'Dr. Rao',
+  course_id: null,
+  student_list: [],
+  session_latitude: CENTRE.latitude,
+  session_longitude: CENTRE.longitude,
+  session_accuracy: 10,
+  session_radius: 20,
+  wifi_ssid: null,
+  wifi_bssid: null,
+  connection_type: null,
+  wifi_bypassed: false,
+  network_matched: null,
+  wifi_required: false,
+  qr_required: false,
+  qr_rotation_seconds: 30,
+  policy: DEFAULT_SESSION_POLICY,
+  is_active: true,
+  expires_at: '2025-10-20T10:10:00Z',
+  paused_at: null,
+  closed_at: null,
+  created_at: '2025-10-20T10:00:00Z',
+  ...overrides,
+});
+
+const passingSignals: VerdictSignals = { coverage: 90, distance: 5, accuracy: 8, networkMatched: null };
+
+describe('GeometryUtils.distanceInMeters', () => {
+  it('is zero for the same point', () => {
+    expect(GeometryUtils.distanceInMeters(26.8435, 75.5653, 26.8435, 75.5653)).toBe(0);
+  });
+
+  it('measures across the antimeridian the short way', () => {
+    // 0.001 degrees of longitude at the equator, split either side of 180
+    const distance = GeometryUtils.distanceInMeters(0, 179.9995, 0, -179.9995);
+    expect(distance).toBeCloseTo(111.19, 1);
+  });
+
+  it('does not return NaN for antipodal points', () => {
+    const distance = GeometryUtils.distanceInMeters(0, 0, 0, 180);
+    expect(distance).toBeCloseTo(Math.PI * 6371e3, 0);
+  });
+});
+
+describe('GeometryUtils.circleOverlapPercentage', () => {
+  it('fully covers a concentric student circle inside the session circle', () => {
+    expect(GeometryUtils.circleOverlapPercentage(26.8435, 75.5653, 50, 26.8435, 75.5653, 10)).toBe(100);
+  });
+
+  it('covers the area ratio of a concentric student circle larger than the session', () => {
+    expect(GeometryUtils.circleOverlapPercentage(26.8435, 75.5653, 10, 26.8435, 75.5653, 20)).toBeCloseTo(25);
+  });
+
+  it('fully covers concentric circles of equal size', () => {
+    expect(GeometryUtils.circleOverlapPercentage(26.8435, 75.5653, 15, 26.8435, 75.5653, 15)).toBe(100);
+  });
+
+  it('treats a zero-radius student circle as a point', () => {
+    expect(GeometryUtils.circleOverlapPercentage(26.8435, 75.5653, 10, 26.8435, 75.5653, 0)).toBe(100);
+    expect(GeometryUtils.overlapAtDistance(11, 10, 0)).toBe(0);
+  });
+
+  it('is zero for a zero-radius session circle away from the student', () => {
+    expect(GeometryUtils.overlapAtDistance(5, 0, 10)).toBe(0);
+  });
+
+  it('overlaps circles either side of the antimeridian', () => {
+    // Centres about 111m apart; each circle is 100m, so they overlap partially
+    const coverage = GeometryUtils.circleOverlapPercentage(0, 179.9995, 100, 0, -179.9995, 100);
+    expect(coverage).toBeGreaterThan(0);
+    expect(coverage).toBeLessThan(100);
+    expect(coverage).toBeCloseTo(GeometryUtils.overlapAtDistance(111.19, 100, 100), 0);
+  });
+
+  it('is zero for circles that only touch', () => {
+    expect(GeometryUtils.overlapAtDistance(30, 10, 20)).toBe(0);
+  });
+});
+
+describe('GeometryUtils polygon helpers', () => {
+  it('finds the centre of a room inside, ten metres from each edge', () => {
+    const position = GeometryUtils.polygonPosition(ROOM, CENTRE.latitude, CENTRE.longitude);
+    expect(position.inside).toBe(true);
+    expect(position.edgeDistance).toBeCloseTo(10, 0);
+  });
+
+  it('measures a point outside to the nearest edge', () => {
+    const position = GeometryUtils.polygonPosition(ROOM, CENTRE.latitude, CENTRE.longitude + 1.5 * TEN_METERS_LON);
+    expect(position.inside).toBe(false);
+    expect(position.edgeDistance).toBeCloseTo(5, 0);
+  });
+
+  it('fully covers a student circle that stays inside the room', () => {
+    expect(GeometryUtils.polygonCoverage(ROOM, CENTRE.latitude, CENTRE.longitude, 5)).toBe(100);
+  });
+
+  it('treats a zero radius as a point', () => {
+    expect(GeometryUtils.polygonCoverage(ROOM, CENTRE.latitude, CENTRE.longitude, 0)).toBe(100);
+    expect(GeometryUtils.polygonCoverage(ROOM, CENTRE.latitude + 3 * TEN_METERS_LAT, CENTRE.longitude, 0)).toBe(0);
+  });
+
+  it('covers half of a circle centred on an edge', () => {
+    const coverage = GeometryUtils.polygonCoverage(ROOM, CENTRE.latitude, CENTRE.longitude + TEN_METERS_LON, 5);
+    expect(coverage).toBeCloseTo(50, 0);
+  });
+
+  it('does not cover a circle that never reaches the room', () => {
+    expect(GeometryUtils.polygonCoverage(ROOM, CENTRE.latitude + 3 * TEN_METERS_LAT, CENTRE.longitude, 5)).toBe(0);
+  });
+
+  it('checks a point against every room', () => {
+    const elsewhere = ROOM.map(point => ({ latitude: point.latitude + 1, longitude: point.longitude }));
+    expect(GeometryUtils.isInsideAny([elsewhere, ROOM], CENTRE.latitude, CENTRE.longitude)).toBe(true);
+    expect(GeometryUtils.isInsideAny([elsewhere], CENTRE.latitude, CENTRE.longitude)).toBe(false);
+  });
+});
+
+describe('GeometryUtils.determineVerdict', () => {
+  it('is present with no rules', () => {
+    expect(GeometryUtils.determineVerdict(passingSignals, [])).toEqual({ status: 'present', reasons: [] });
+  });
+
+  it('collects the reason from every failing rule', () => {
+    const result = GeometryUtils.determineVerdict(
+      { coverage: 10, distance: 200, accuracy: 8, networkMatched: false },
+      [VerdictRules.coverage(50), VerdictRules.maxDistance(100), VerdictRules.maxAccuracy(50), VerdictRules.campusNetwork(true)]
+    );
+    expect(result.status).toBe('proxy');
+    expect(result.reasons).toHaveLength(3);
+    expect(result.reasons[0]).toMatch(/Coverage 10.0% is below 50%/);
+    expect(result.reasons[1]).toMatch(/from the session area/);
+    expect(result.reasons[2]).toBe('Not on a campus network');
+  });
+});
+
+describe('GeometryUtils.sessionVerdictRules', () => {
+  const verdict = (signals: Partial<VerdictSignals>, session = buildSession(), hasGeofences = false) =>
+    GeometryUtils.determineVerdict(
+      { ...passingSignals, ...signals },
+      GeometryUtils.sessionVerdictRules(session, hasGeofences)
+    );
+
+  it('accepts a submission that passes every check', () => {
+    expect(verdict({}).status).toBe('present');
+  });
+
+  it('flags coverage below the policy threshold', () => {
+    expect(verdict({ coverage: DEFAULT_SESSION_POLICY.coverage_threshold - 1 }).status).toBe('proxy');
+  });
+
+  it('allows circle sessions the session radius plus the maximum accuracy', () => {
+    const limit = 20 + DEFAULT_SESSION_POLICY.max_accuracy;
+    expect(verdict({ distance: limit }).status).toBe('present');
+    expect(verdict({ distance: limit + 1 }).status).toBe('proxy');
+  });
+
+  it('allows geofenced sessions the maximum accuracy from the nearest room edge', () => {
+    const limit = DEFAULT_SESSION_POLICY.max_accuracy;
+    expect(verdict({ distance: limit }, buildSession(), true).status).toBe('present');
+    expect(verdict({ distance: limit + 1 }, buildSession(), true).status).toBe('proxy');
+  });
+
+  it('flags accuracy worse than the policy allows', () => {
+    expect(verdict({ accuracy: DEFAULT_SESSION_POLICY.max_accuracy + 1 }).status).toBe('proxy');
+  });
+
+  it('only requires a campus network when the session asks for one and networks are configured', () => {
+    expect(verdict({ networkMatched: false }).status).toBe('present');
+    expect(verdict({ networkMatched: false }, buildSession({ wifi_required: true })).status).toBe('proxy');
+    expect(verdict({ networkMatched: null }, buildSession({ wifi_required: true })).status).toBe('present');
+  });
+});